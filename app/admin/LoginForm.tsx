@@ -5,8 +5,10 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation'; // Correct import for App Router
 
 export default function LoginForm() {
+    const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [message, setMessage] = useState('');
+    const [isLockedOut, setIsLockedOut] = useState(false);
     const router = useRouter(); // useRouter is called here, within the client component.
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -19,12 +21,17 @@ export default function LoginForm() {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ password }),
+                body: JSON.stringify({ username, password }),
             });
 
             const data = await response.json();
 
-            if (response.ok) {
+            if (response.status === 429) {
+                // The server's message already says how long to wait; keep the button off until then
+                setMessage(data.error || 'Too many failed login attempts. Please try again later.');
+                setIsLockedOut(true);
+                setTimeout(() => setIsLockedOut(false), (data.retryAfterSeconds || 60) * 1000);
+            } else if (response.ok) {
                 setMessage('Login successful! Redirecting...');
                 // router.push is called in an event handler, which executes after client-side hydration.
                 router.push('/admin/dashboard');
@@ -78,6 +85,18 @@ export default function LoginForm() {
 
     return (
         <form onSubmit={handleSubmit} style={styles.form}>
+            <div style={styles.formGroup}>
+                <label htmlFor="username" style={styles.label}>Username:</label>
+                <input
+                    type="text"
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    autoComplete="username"
+                    style={styles.input}
+                />
+            </div>
             <div style={styles.formGroup}>
                 <label htmlFor="password" style={styles.label}>Password:</label>
                 <input
@@ -86,10 +105,11 @@ export default function LoginForm() {
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     required
+                    autoComplete="current-password"
                     style={styles.input}
                 />
             </div>
-            <button type="submit" style={styles.button}>Login</button>
+            <button type="submit" disabled={isLockedOut} style={styles.button}>Login</button>
             {message && <p style={styles.message}>{message}</p>}
         </form>
     );
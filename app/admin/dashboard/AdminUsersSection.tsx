@@ -0,0 +1,207 @@
+// app/admin/dashboard/AdminUsersSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type AdminRole = 'viewer' | 'moderator' | 'owner';
+
+interface AdminAccount {
+    id: number;
+    username: string;
+    role: AdminRole;
+    createdAt: string;
+}
+
+const ROLES: AdminRole[] = ['viewer', 'moderator', 'owner'];
+
+interface AdminUsersSectionProps {
+    currentUserId: number;
+}
+
+/**
+ * Owner-only section of the dashboard for creating, re-roling and removing admin accounts.
+ */
+export default function AdminUsersSection({ currentUserId }: AdminUsersSectionProps) {
+    const [users, setUsers] = useState<AdminAccount[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [newUsername, setNewUsername] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [newRole, setNewRole] = useState<AdminRole>('viewer');
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginBottom: '1rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            textAlign: 'left',
+            verticalAlign: 'middle',
+        },
+        form: {
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            marginBottom: '2rem',
+        },
+        input: {
+            padding: '6px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+        },
+        addButton: {
+            padding: '6px 10px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        deleteButton: {
+            padding: '6px 10px',
+            backgroundColor: '#e74c3c',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        errorText: {
+            color: 'red',
+            fontWeight: 'bold',
+        },
+    };
+
+    const fetchUsers = useCallback(async () => {
+        try {
+            const response = await fetch('/api/admin/users');
+            if (!response.ok) {
+                throw new Error('Failed to fetch admin accounts');
+            }
+            const data: AdminAccount[] = await response.json();
+            setUsers(data);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchUsers();
+    }, [fetchUsers]);
+
+    const sendUserRequest = async (method: string, body: object) => {
+        setError(null);
+        try {
+            const response = await fetch('/api/admin/users', {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(body),
+            });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to update admin accounts');
+            }
+            fetchUsers(); // Refresh the list after action
+            return true;
+        } catch (err: any) {
+            console.error('Error managing admin accounts:', err);
+            setError(err.message);
+            return false;
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const created = await sendUserRequest('POST', { username: newUsername, password: newPassword, role: newRole });
+        if (created) {
+            setNewUsername('');
+            setNewPassword('');
+            setNewRole('viewer');
+        }
+    };
+
+    const handleRoleChange = (id: number, role: AdminRole) => {
+        sendUserRequest('PATCH', { id, role });
+    };
+
+    const handleDelete = (user: AdminAccount) => {
+        if (!confirm(`Are you sure you want to delete the admin account "${user.username}"?`)) {
+            return;
+        }
+        sendUserRequest('DELETE', { id: user.id });
+    };
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Admin Accounts ({users.length})</h2>
+            {error && <p style={styles.errorText}>Error: {error}</p>}
+            <table style={styles.table}>
+                <thead>
+                <tr>
+                    <th style={styles.th}>Username</th>
+                    <th style={styles.th}>Role</th>
+                    <th style={styles.th}>Created At</th>
+                    <th style={styles.th}>Actions</th>
+                </tr>
+                </thead>
+                <tbody>
+                {users.map((user) => (
+                    <tr key={user.id}>
+                        <td style={styles.td}>{user.username}{user.id === currentUserId && ' (you)'}</td>
+                        <td style={styles.td}>
+                            <select value={user.role} onChange={(e) => handleRoleChange(user.id, e.target.value as AdminRole)}>
+                                {ROLES.map((role) => <option key={role} value={role}>{role}</option>)}
+                            </select>
+                        </td>
+                        <td style={styles.td}>{new Date(user.createdAt).toLocaleString()}</td>
+                        <td style={styles.td}>
+                            <button onClick={() => handleDelete(user)} style={styles.deleteButton}>Delete</button>
+                        </td>
+                    </tr>
+                ))}
+                </tbody>
+            </table>
+
+            <form onSubmit={handleCreate} style={styles.form}>
+                <input
+                    type="text"
+                    placeholder="Username"
+                    value={newUsername}
+                    onChange={(e) => setNewUsername(e.target.value)}
+                    required
+                    style={styles.input}
+                />
+                <input
+                    type="password"
+                    placeholder="Password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    required
+                    autoComplete="new-password"
+                    style={styles.input}
+                />
+                <select value={newRole} onChange={(e) => setNewRole(e.target.value as AdminRole)} style={styles.input}>
+                    {ROLES.map((role) => <option key={role} value={role}>{role}</option>)}
+                </select>
+                <button type="submit" style={styles.addButton}>Add Admin</button>
+            </form>
+        </>
+    );
+}
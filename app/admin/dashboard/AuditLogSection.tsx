@@ -0,0 +1,226 @@
+// app/admin/dashboard/AuditLogSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface AuditEntry {
+    id: number;
+    actorUsername: string;
+    action: string;
+    signatureId: number | null;
+    nationName: string | null;
+    snapshot: Record<string, unknown> | null;
+    reason: string | null;
+    createdAt: string;
+}
+
+interface AuditFilters {
+    actor: string;
+    action: string;
+    nation: string;
+    from: string;
+    to: string;
+}
+
+const ACTIONS = ['revoke', 'restore', 'clear', 'withdraw', 'approve-comment', 'reject-comment', 'merge', 'delete'];
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', nation: '', from: '', to: '' };
+
+interface AuditLogSectionProps {
+    // Bumped by the dashboard after each mutation so the log reloads
+    refreshKey?: number;
+}
+
+/**
+ * Filterable view of the signature audit log, used to answer disputes from removed signers.
+ */
+export default function AuditLogSection({ refreshKey = 0 }: AuditLogSectionProps) {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+    const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        filters: {
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            marginBottom: '1rem',
+        },
+        input: {
+            padding: '6px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+        },
+        button: {
+            padding: '6px 10px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginBottom: '2rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            textAlign: 'left',
+            verticalAlign: 'top',
+        },
+        snapshot: {
+            fontSize: '0.8rem',
+            whiteSpace: 'pre-wrap',
+            backgroundColor: '#f9f9f9',
+            padding: '6px',
+            margin: '6px 0 0',
+        },
+        linkButton: {
+            background: 'none',
+            border: 'none',
+            color: '#3498db',
+            cursor: 'pointer',
+            padding: 0,
+        },
+        errorText: {
+            color: 'red',
+            fontWeight: 'bold',
+        },
+    };
+
+    const fetchEntries = useCallback(async () => {
+        const params = new URLSearchParams();
+        (Object.keys(appliedFilters) as (keyof AuditFilters)[]).forEach((key) => {
+            const value = appliedFilters[key];
+            if (!value) return;
+            // Date inputs give local calendar days; widen "to" to the end of that day
+            if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+            else if (key === 'to') params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+            else params.set(key, value);
+        });
+
+        try {
+            const response = await fetch(`/api/admin/audit?${params.toString()}`);
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to fetch audit log');
+            }
+            const data: AuditEntry[] = await response.json();
+            setEntries(data);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [appliedFilters]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries, refreshKey]);
+
+    const updateFilter = (key: keyof AuditFilters, value: string) => {
+        setFilters((previous) => ({ ...previous, [key]: value }));
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setAppliedFilters(filters);
+    };
+
+    const handleReset = () => {
+        setFilters(EMPTY_FILTERS);
+        setAppliedFilters(EMPTY_FILTERS);
+    };
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Audit Log</h2>
+            <form onSubmit={handleSearch} style={styles.filters}>
+                <input
+                    type="text"
+                    placeholder="Nation"
+                    value={filters.nation}
+                    onChange={(e) => updateFilter('nation', e.target.value)}
+                    style={styles.input}
+                />
+                <input
+                    type="text"
+                    placeholder="Admin"
+                    value={filters.actor}
+                    onChange={(e) => updateFilter('actor', e.target.value)}
+                    style={styles.input}
+                />
+                <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} style={styles.input}>
+                    <option value="">Any action</option>
+                    {ACTIONS.map((action) => <option key={action} value={action}>{action}</option>)}
+                </select>
+                <label>From <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} style={styles.input} /></label>
+                <label>To <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} style={styles.input} /></label>
+                <button type="submit" style={styles.button}>Filter</button>
+                <button type="button" onClick={handleReset} style={styles.button}>Reset</button>
+            </form>
+
+            {error && <p style={styles.errorText}>Error: {error}</p>}
+
+            {entries.length === 0 ? (
+                <p>No audit entries match these filters.</p>
+            ) : (
+                <table style={styles.table}>
+                    <thead>
+                    <tr>
+                        <th style={styles.th}>When</th>
+                        <th style={styles.th}>Admin</th>
+                        <th style={styles.th}>Action</th>
+                        <th style={styles.th}>Signature</th>
+                        <th style={styles.th}>Reason</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {entries.map((entry) => (
+                        <tr key={entry.id}>
+                            <td style={styles.td}>{new Date(entry.createdAt).toLocaleString()}</td>
+                            <td style={styles.td}>{entry.actorUsername}</td>
+                            <td style={styles.td}>{entry.action}</td>
+                            <td style={styles.td}>
+                                {entry.nationName || '—'}{entry.signatureId !== null && ` (#${entry.signatureId})`}
+                                {entry.snapshot && (
+                                    <div>
+                                        <button
+                                            type="button"
+                                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                            style={styles.linkButton}
+                                        >
+                                            {expandedId === entry.id ? 'Hide snapshot' : 'Show snapshot'}
+                                        </button>
+                                        {expandedId === entry.id && (
+                                            <pre style={styles.snapshot}>{JSON.stringify(entry.snapshot, null, 2)}</pre>
+                                        )}
+                                    </div>
+                                )}
+                            </td>
+                            <td style={styles.td}>{entry.reason || '—'}</td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,60 @@
+// app/admin/dashboard/CacheFreshnessBanner.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatTimeAgo } from '../../../lib/utils';
+
+interface CacheFreshness {
+    lastUpdated: string | null;
+    stale: boolean;
+    maxAgeHours: number;
+}
+
+/**
+ * Warns at the top of the dashboard when the nation cache has not been refreshed within the expected window,
+ * which usually means the scheduled dump import has stopped running.
+ */
+export default function CacheFreshnessBanner() {
+    const [cache, setCache] = useState<CacheFreshness | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        banner: {
+            padding: '10px 14px',
+            marginBottom: '1rem',
+            backgroundColor: '#fff4e5',
+            border: '1px solid #f0ad4e',
+            borderRadius: '4px',
+            color: '#8a5300',
+            textAlign: 'left',
+        },
+    };
+
+    useEffect(() => {
+        const fetchFreshness = async () => {
+            try {
+                const response = await fetch('/api/admin/dump-status');
+                if (response.ok) {
+                    const data = await response.json();
+                    setCache(data.cache);
+                }
+            } catch (err) {
+                console.error('Error fetching cache freshness:', err);
+            }
+        };
+        fetchFreshness();
+    }, []);
+
+    if (!cache?.stale) {
+        return null;
+    }
+
+    return (
+        <div style={styles.banner} role="alert">
+            <b>Nation cache is stale.</b>{' '}
+            {cache.lastUpdated
+                ? `It was last refreshed ${formatTimeAgo(new Date(cache.lastUpdated)).toLowerCase()}, more than ${cache.maxAgeHours} hours ago.`
+                : 'It has never been refreshed.'}{' '}
+            Check the dump import history below.
+        </div>
+    );
+}
@@ -0,0 +1,232 @@
+// app/admin/dashboard/CommentModerationSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+type CommentStatus = 'pending' | 'approved' | 'rejected';
+
+interface SignatureComment {
+    signatureId: number;
+    letterTitle: string;
+    nationName: string;
+    comment: string;
+    commentStatus: CommentStatus;
+    commentedAt: string;
+    commentModeratedAt: string | null;
+    commentModeratedBy: string | null;
+}
+
+interface CommentModerationSectionProps {
+    // Viewers see the queue but cannot act on it
+    canModerate: boolean;
+    // Called after a decision, so the audit log can refresh
+    onModerated: () => void;
+}
+
+const TABS: { status: CommentStatus; label: string }[] = [
+    { status: 'pending', label: 'Pending' },
+    { status: 'approved', label: 'Approved' },
+    { status: 'rejected', label: 'Rejected' },
+];
+
+/**
+ * Queue of signer comments awaiting approval, plus the approved and rejected ones so a decision can be reversed.
+ */
+export default function CommentModerationSection({ canModerate, onModerated }: CommentModerationSectionProps) {
+    const [status, setStatus] = useState<CommentStatus>('pending');
+    const [comments, setComments] = useState<SignatureComment[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<number | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        tabs: {
+            display: 'flex',
+            gap: '8px',
+            marginBottom: '1rem',
+        },
+        tab: {
+            padding: '6px 14px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            backgroundColor: '#f2f2f2',
+            cursor: 'pointer',
+        },
+        activeTab: {
+            padding: '6px 14px',
+            border: '1px solid #3498db',
+            borderRadius: '4px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            cursor: 'pointer',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginBottom: '2rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            textAlign: 'left',
+            verticalAlign: 'middle',
+        },
+        comment: {
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+        },
+        approveButton: {
+            padding: '6px 10px',
+            backgroundColor: '#27ae60',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            marginRight: '6px',
+        },
+        rejectButton: {
+            padding: '6px 10px',
+            backgroundColor: '#e74c3c',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        meta: {
+            fontSize: '0.85rem',
+            color: '#666',
+        },
+        errorText: {
+            color: 'red',
+            fontWeight: 'bold',
+        },
+    };
+
+    const fetchComments = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/admin/comments?status=${status}`);
+            if (!response.ok) {
+                throw new Error('Failed to fetch comments');
+            }
+            const data: SignatureComment[] = await response.json();
+            setComments(data);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, [status]);
+
+    useEffect(() => {
+        fetchComments();
+    }, [fetchComments]);
+
+    const handleDecision = async (comment: SignatureComment, decision: 'approve' | 'reject') => {
+        let reason: string | null = null;
+        if (decision === 'reject') {
+            reason = prompt(`Reject the comment from ${comment.nationName}? Optionally give a reason for the audit log:`, '');
+            if (reason === null) return;
+        }
+        setBusyId(comment.signatureId);
+        try {
+            const response = await fetch('/api/admin/comments', {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ id: comment.signatureId, decision, reason }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || `Failed to ${decision} comment`);
+            }
+            fetchComments(); // Refresh the list after action
+            onModerated();
+        } catch (err: any) {
+            console.error(`Error trying to ${decision} comment:`, err);
+            setError(err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Signer Comments</h2>
+            <div style={styles.tabs}>
+                {TABS.map((tab) => (
+                    <button key={tab.status} onClick={() => setStatus(tab.status)} style={status === tab.status ? styles.activeTab : styles.tab}>
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+            {error && <p style={styles.errorText}>Error: {error}</p>}
+            {comments.length === 0 ? (
+                <p>{status === 'pending' ? 'No comments are waiting for approval.' : `No ${status} comments.`}</p>
+            ) : (
+                <table style={styles.table}>
+                    <thead>
+                    <tr>
+                        <th style={styles.th}>Nation</th>
+                        <th style={styles.th}>Letter</th>
+                        <th style={styles.th}>Comment</th>
+                        <th style={styles.th}>Submitted</th>
+                        {canModerate && <th style={styles.th}>Actions</th>}
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {comments.map((comment) => (
+                        <tr key={comment.signatureId}>
+                            <td style={styles.td}>{comment.nationName}</td>
+                            <td style={styles.td}>{comment.letterTitle}</td>
+                            <td style={{ ...styles.td, ...styles.comment }}>
+                                {comment.comment}
+                                {comment.commentModeratedBy && (
+                                    <div style={styles.meta}>
+                                        {comment.commentStatus} by {comment.commentModeratedBy}
+                                        {comment.commentModeratedAt && ` on ${new Date(comment.commentModeratedAt).toLocaleString()}`}
+                                    </div>
+                                )}
+                            </td>
+                            <td style={styles.td}>{new Date(comment.commentedAt).toLocaleString()}</td>
+                            {canModerate && (
+                                <td style={styles.td}>
+                                    {comment.commentStatus !== 'approved' && (
+                                        <button
+                                            onClick={() => handleDecision(comment, 'approve')}
+                                            disabled={busyId === comment.signatureId}
+                                            style={styles.approveButton}
+                                        >
+                                            Approve
+                                        </button>
+                                    )}
+                                    {comment.commentStatus !== 'rejected' && (
+                                        <button
+                                            onClick={() => handleDecision(comment, 'reject')}
+                                            disabled={busyId === comment.signatureId}
+                                            style={styles.rejectButton}
+                                        >
+                                            Reject
+                                        </button>
+                                    )}
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+}
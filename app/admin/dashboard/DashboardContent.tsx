@@ -1,23 +1,114 @@
 // app/admin/dashboard/DashboardContent.tsx
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import AdminUsersSection from './AdminUsersSection';
+import AuditLogSection from './AuditLogSection';
+import NationCacheSection from './NationCacheSection';
+import CacheFreshnessBanner from './CacheFreshnessBanner';
+import LoginLockoutsSection from './LoginLockoutsSection';
+import LettersSection from './LettersSection';
+import CommentModerationSection from './CommentModerationSection';
 
 interface Signature {
     id: number;
+    letterTitle: string;
     nationName: string;
     checksum: string;
     signedAt: string;
     flagUrl?: string;
     region?: string;
+    isRegionDelegate?: boolean;
+    isRegionFounder?: boolean;
+    ceasedAt?: string | null;
+    revokedAt?: string | null;
+    revokedBy?: string | null;
+    revocationReason?: string | null;
+    resignAllowed?: boolean;
+    withdrawnAt?: string | null;
+}
+
+type SignatureTab = 'active' | 'revoked' | 'withdrawn';
+
+const TAB_LABELS: Record<SignatureTab, string> = {
+    active: 'Active',
+    revoked: 'Revoked',
+    withdrawn: 'Withdrawn',
+};
+
+// Just what the signature filter needs; LettersSection loads the full letters
+interface LetterOption {
+    id: number;
+    title: string;
+}
+
+interface SignatureQuery {
+    // A letter ID, or '' for every letter
+    letter: string;
+    q: string;
+    from: string;
+    to: string;
+    sort: 'signedAt' | 'nationName' | 'region' | 'id';
+    dir: 'asc' | 'desc';
+    limit: number;
+}
+
+interface SignaturePage {
+    signatures: Signature[];
+    nextCursor: string | null;
+    total: number;
+}
+
+interface BulkResult {
+    message: string;
+    failed: number;
+    results: { id: number; ok: boolean; error?: string }[];
+}
+
+const DEFAULT_QUERY: SignatureQuery = { letter: '', q: '', from: '', to: '', sort: 'signedAt', dir: 'desc', limit: 50 };
+
+const PAGE_SIZES = [25, 50, 100, 200];
+
+/**
+ * Turns the dashboard's tab and filter state into query parameters for /api/admin/signatures.
+ * Date inputs give local calendar days, so "to" is widened to the end of that day.
+ */
+function buildSignatureParams(tab: SignatureTab, query: SignatureQuery): URLSearchParams {
+    const params = new URLSearchParams({ status: tab, sort: query.sort, dir: query.dir, limit: String(query.limit) });
+    if (query.letter) params.set('letter', query.letter);
+    if (query.q.trim()) params.set('q', query.q.trim());
+    if (query.from) params.set('from', new Date(`${query.from}T00:00:00`).toISOString());
+    if (query.to) params.set('to', new Date(`${query.to}T23:59:59.999`).toISOString());
+    return params;
+}
+
+interface CurrentAdmin {
+    id: number;
+    username: string;
+    role: 'viewer' | 'moderator' | 'owner';
 }
 
 export default function DashboardContent() {
     const [signatures, setSignatures] = useState<Signature[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [currentAdmin, setCurrentAdmin] = useState<CurrentAdmin | null>(null);
+    const [letters, setLetters] = useState<LetterOption[]>([]);
+    const [auditRefreshKey, setAuditRefreshKey] = useState(0);
+    const [tab, setTab] = useState<SignatureTab>('active');
+    const [queryDraft, setQueryDraft] = useState<SignatureQuery>(DEFAULT_QUERY);
+    const [appliedQuery, setAppliedQuery] = useState<SignatureQuery>(DEFAULT_QUERY);
+    // Cursors of the pages before the current one, so "Previous" can step back
+    const [cursorStack, setCursorStack] = useState<string[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [total, setTotal] = useState(0);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    // When set, bulk actions target every signature matching the applied filters, not just the checked rows
+    const [selectAllMatching, setSelectAllMatching] = useState(false);
+    const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
+    const [bulkRunning, setBulkRunning] = useState(false);
     const router = useRouter();
 
     // --- MOVE STYLES DECLARATION HERE ---
@@ -108,62 +199,332 @@ export default function DashboardContent() {
             borderRadius: '4px',
             cursor: 'pointer',
         },
+        restoreButton: {
+            padding: '6px 10px',
+            backgroundColor: '#27ae60',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            marginRight: '6px',
+        },
+        secondaryButton: {
+            padding: '6px 10px',
+            backgroundColor: '#95a5a6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        tabs: {
+            display: 'flex',
+            gap: '6px',
+            marginBottom: '1rem',
+        },
+        tab: {
+            padding: '6px 14px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            backgroundColor: '#f2f2f2',
+            cursor: 'pointer',
+        },
+        activeTab: {
+            padding: '6px 14px',
+            border: '1px solid #3498db',
+            borderRadius: '4px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            cursor: 'pointer',
+        },
+        controls: {
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            marginBottom: '1rem',
+        },
+        input: {
+            padding: '6px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+        },
+        controlButton: {
+            padding: '6px 10px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        bulkBar: {
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            padding: '8px',
+            marginBottom: '1rem',
+            backgroundColor: '#fdf6e3',
+            border: '1px solid #e6d9a8',
+            borderRadius: '4px',
+        },
+        linkButton: {
+            background: 'none',
+            border: 'none',
+            color: '#3498db',
+            cursor: 'pointer',
+            padding: 0,
+        },
+        exportLink: {
+            color: '#3498db',
+            fontWeight: 'bold',
+        },
+        pagination: {
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            justifyContent: 'flex-end',
+            marginBottom: '2rem',
+        },
         errorText: {
             color: 'red',
             fontWeight: 'bold',
         },
+        currentAdmin: {
+            fontSize: '0.9rem',
+            color: '#666',
+            marginRight: '10px',
+        },
     };
     // --- END STYLES DECLARATION ---
 
 
-    const fetchSignatures = async () => {
+    const fetchCurrentAdmin = async () => {
         try {
-            const response = await fetch('/api/admin/signatures');
+            const response = await fetch('/api/admin/me');
+            if (response.ok) {
+                setCurrentAdmin(await response.json());
+            }
+        } catch (err) {
+            console.error('Error fetching current admin:', err);
+        }
+    };
+
+    const fetchLetters = async () => {
+        try {
+            const response = await fetch('/api/admin/letters');
+            if (response.ok) {
+                setLetters(await response.json());
+            }
+        } catch (err) {
+            console.error('Error fetching letters:', err);
+        }
+    };
+
+    const currentCursor = cursorStack[cursorStack.length - 1];
+
+    const fetchSignatures = useCallback(async () => {
+        const params = buildSignatureParams(tab, appliedQuery);
+        if (currentCursor) params.set('cursor', currentCursor);
+
+        try {
+            const response = await fetch(`/api/admin/signatures?${params.toString()}`);
             if (response.status === 401) {
                 router.push('/admin'); // Redirect to login if not authenticated
                 return;
             }
             if (!response.ok) {
-                throw new Error('Failed to fetch signatures for admin');
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to fetch signatures for admin');
             }
-            const data: Signature[] = await response.json();
-            setSignatures(data);
+            const data: SignaturePage = await response.json();
+            setSignatures(data.signatures);
+            setNextCursor(data.nextCursor);
+            setTotal(data.total);
         } catch (err: any) {
             setError(err.message);
         } finally {
             setLoading(false);
         }
-    };
+    }, [tab, appliedQuery, currentCursor, router]);
 
     useEffect(() => {
-        fetchSignatures();
+        fetchCurrentAdmin();
+        fetchLetters();
     }, []);
 
-    const handleDelete = async (id: number) => {
-        if (!confirm('Are you sure you want to delete this signature?')) {
+    useEffect(() => {
+        fetchSignatures();
+    }, [fetchSignatures]);
+
+    const canModerate = currentAdmin?.role === 'moderator' || currentAdmin?.role === 'owner';
+
+    const updateQueryDraft = <K extends keyof SignatureQuery>(key: K, value: SignatureQuery[K]) => {
+        setQueryDraft((previous) => ({ ...previous, [key]: value }));
+    };
+
+    const clearSelection = () => {
+        setSelectedIds(new Set());
+        setSelectAllMatching(false);
+    };
+
+    // Any change of tab or filters starts again from the first page with nothing selected
+    const changeTab = (newTab: SignatureTab) => {
+        setTab(newTab);
+        setCursorStack([]);
+        clearSelection();
+        setBulkResult(null);
+    };
+
+    const handleApplyQuery = (e: React.FormEvent) => {
+        e.preventDefault();
+        setAppliedQuery(queryDraft);
+        setCursorStack([]);
+        clearSelection();
+    };
+
+    const handleResetQuery = () => {
+        setQueryDraft(DEFAULT_QUERY);
+        setAppliedQuery(DEFAULT_QUERY);
+        setCursorStack([]);
+        clearSelection();
+    };
+
+    const toggleSelected = (id: number) => {
+        setSelectAllMatching(false);
+        setSelectedIds((previous) => {
+            const next = new Set(previous);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const allOnPageSelected = signatures.length > 0 && signatures.every((signature) => selectedIds.has(signature.id));
+
+    const togglePageSelected = () => {
+        setSelectAllMatching(false);
+        setSelectedIds((previous) => {
+            const next = new Set(previous);
+            signatures.forEach((signature) => {
+                if (allOnPageSelected) next.delete(signature.id);
+                else next.add(signature.id);
+            });
+            return next;
+        });
+    };
+
+    // Exports follow the applied filters and sort, not the unsaved draft
+    const exportUrl = (format: 'csv' | 'json' | 'bbcode') => {
+        const params = buildSignatureParams(tab, appliedQuery);
+        params.delete('limit');
+        params.set('format', format);
+        return `/api/admin/export?${params.toString()}`;
+    };
+
+    const selectionCount = selectAllMatching ? total : selectedIds.size;
+
+    const handleBulkAction = async (action: 'revoke' | 'restore') => {
+        const reason = prompt(
+            action === 'revoke'
+                ? `Why are these ${selectionCount} signatures being revoked? This is recorded in the audit log.`
+                : `Optional note for the audit log when restoring ${selectionCount} signatures:`
+        );
+        if (reason === null) {
             return;
         }
+        if (action === 'revoke' && !reason.trim()) {
+            alert('A reason is required to revoke signatures.');
+            return;
+        }
+
+        const target = selectAllMatching
+            ? { filter: Object.fromEntries(buildSignatureParams(tab, appliedQuery)) }
+            : { ids: Array.from(selectedIds) };
+
+        setBulkRunning(true);
         try {
             const response = await fetch('/api/admin/signatures', {
-                method: 'DELETE',
+                method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ id }),
+                body: JSON.stringify({ ...target, action, reason }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || `Failed to ${action} signatures`);
+            }
+            setBulkResult(data);
+            clearSelection();
+            setCursorStack([]);
+            fetchSignatures(); // Refresh the list after action
+            setAuditRefreshKey((key) => key + 1);
+        } catch (err: any) {
+            console.error(`Error applying bulk ${action}:`, err);
+            setError(err.message);
+        } finally {
+            setBulkRunning(false);
+        }
+    };
+
+    const handleNextPage = () => {
+        if (nextCursor) setCursorStack((stack) => [...stack, nextCursor]);
+    };
+
+    const handlePreviousPage = () => {
+        setCursorStack((stack) => stack.slice(0, -1));
+    };
+
+    const moderateSignature = async (id: number, action: 'revoke' | 'restore' | 'clear', reason: string | null) => {
+        try {
+            const response = await fetch('/api/admin/signatures', {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ id, action, reason }),
             });
 
             if (!response.ok) {
                 const errorData = await response.json();
-                throw new Error(errorData.error || `Failed to delete signature for ID: ${id}`);
+                throw new Error(errorData.error || `Failed to ${action} signature for ID: ${id}`);
             }
 
             fetchSignatures(); // Refresh the list after action
+            setAuditRefreshKey((key) => key + 1);
         } catch (err: any) {
-            console.error('Error deleting signature:', err);
+            console.error(`Error applying ${action} to signature:`, err);
             setError(err.message);
         }
     };
 
+    const handleRevoke = (id: number) => {
+        const reason = prompt('Why is this signature being revoked? This is recorded in the audit log.');
+        if (reason === null) {
+            return;
+        }
+        if (!reason.trim()) {
+            alert('A reason is required to revoke a signature.');
+            return;
+        }
+        moderateSignature(id, 'revoke', reason);
+    };
+
+    const handleRestore = (id: number) => {
+        const reason = prompt('Optional note for the audit log:');
+        if (reason === null) {
+            return;
+        }
+        moderateSignature(id, 'restore', reason);
+    };
+
+    const handleAllowResign = (id: number) => {
+        if (!confirm('Allow this nation to sign again? Its signature stays revoked until it re-signs.')) {
+            return;
+        }
+        moderateSignature(id, 'clear', null);
+    };
+
     const handleLogout = async () => {
         try {
             const response = await fetch('/api/admin/logout', { method: 'POST' });
@@ -197,29 +558,127 @@ export default function DashboardContent() {
     return (
         <>
             <div style={styles.header}>
-                <h1 style={styles.title}>Admin Dashboard (All Signatures)</h1>
-                <button onClick={handleLogout} style={styles.logoutButton}>Logout</button>
+                <h1 style={styles.title}>Admin Dashboard</h1>
+                <div>
+                    {currentAdmin && (
+                        <span style={styles.currentAdmin}>{currentAdmin.username} ({currentAdmin.role})</span>
+                    )}
+                    <button onClick={handleLogout} style={styles.logoutButton}>Logout</button>
+                </div>
             </div>
 
-            <h2 style={styles.sectionTitle}>All Signatures ({signatures.length})</h2>
+            <CacheFreshnessBanner />
+
+            <h2 style={styles.sectionTitle}>{TAB_LABELS[tab]} Signatures ({total})</h2>
+            <div style={styles.tabs}>
+                {(Object.keys(TAB_LABELS) as SignatureTab[]).map((key) => (
+                    <button key={key} onClick={() => changeTab(key)} style={tab === key ? styles.activeTab : styles.tab}>{TAB_LABELS[key]}</button>
+                ))}
+            </div>
+            <form onSubmit={handleApplyQuery} style={styles.controls}>
+                <select value={queryDraft.letter} onChange={(e) => updateQueryDraft('letter', e.target.value)} style={styles.input}>
+                    <option value="">All letters</option>
+                    {letters.map((letter) => <option key={letter.id} value={String(letter.id)}>{letter.title}</option>)}
+                </select>
+                <input
+                    type="text"
+                    placeholder="Search nation or region"
+                    value={queryDraft.q}
+                    onChange={(e) => updateQueryDraft('q', e.target.value)}
+                    style={styles.input}
+                />
+                <label>From <input type="date" value={queryDraft.from} onChange={(e) => updateQueryDraft('from', e.target.value)} style={styles.input} /></label>
+                <label>To <input type="date" value={queryDraft.to} onChange={(e) => updateQueryDraft('to', e.target.value)} style={styles.input} /></label>
+                <select value={queryDraft.sort} onChange={(e) => updateQueryDraft('sort', e.target.value as SignatureQuery['sort'])} style={styles.input}>
+                    <option value="signedAt">Signed At</option>
+                    <option value="nationName">Nation Name</option>
+                    <option value="region">Region</option>
+                    <option value="id">ID</option>
+                </select>
+                <select value={queryDraft.dir} onChange={(e) => updateQueryDraft('dir', e.target.value as SignatureQuery['dir'])} style={styles.input}>
+                    <option value="desc">Descending</option>
+                    <option value="asc">Ascending</option>
+                </select>
+                <select value={queryDraft.limit} onChange={(e) => updateQueryDraft('limit', Number(e.target.value))} style={styles.input}>
+                    {PAGE_SIZES.map((size) => <option key={size} value={size}>{size} per page</option>)}
+                </select>
+                <button type="submit" style={styles.controlButton}>Apply</button>
+                <button type="button" onClick={handleResetQuery} style={styles.controlButton}>Reset</button>
+            </form>
+            <div style={styles.controls}>
+                <span>Export {total} matching:</span>
+                {(['csv', 'json', 'bbcode'] as const).map((format) => (
+                    <a key={format} href={exportUrl(format)} download style={styles.exportLink}>
+                        {format === 'bbcode' ? 'BBCode' : format.toUpperCase()}
+                    </a>
+                ))}
+            </div>
+            {canModerate && selectionCount > 0 && (
+                <div style={styles.bulkBar}>
+                    <span>{selectionCount} selected</span>
+                    {!selectAllMatching && allOnPageSelected && total > signatures.length && (
+                        <button onClick={() => setSelectAllMatching(true)} style={styles.linkButton}>
+                            Select all {total} matching signatures
+                        </button>
+                    )}
+                    {tab === 'revoked' ? (
+                        <button onClick={() => handleBulkAction('restore')} disabled={bulkRunning} style={styles.restoreButton}>Restore selected</button>
+                    ) : (
+                        <button onClick={() => handleBulkAction('revoke')} disabled={bulkRunning} style={styles.deleteButton}>Revoke selected</button>
+                    )}
+                    <button onClick={clearSelection} style={styles.linkButton}>Clear selection</button>
+                </div>
+            )}
+            {bulkResult && (
+                <div style={styles.bulkBar}>
+                    <span>{bulkResult.message}</span>
+                    {bulkResult.failed > 0 && (
+                        <ul>
+                            {bulkResult.results.filter((result) => !result.ok).map((result) => (
+                                <li key={result.id}>#{result.id}: {result.error}</li>
+                            ))}
+                        </ul>
+                    )}
+                    <button onClick={() => setBulkResult(null)} style={styles.linkButton}>Dismiss</button>
+                </div>
+            )}
             {signatures.length === 0 ? (
-                <p>No signatures yet.</p>
+                <p>{tab === 'active' ? 'No signatures match.' : `No ${tab} signatures match.`}</p>
             ) : (
                 <table style={styles.table}>
                     <thead>
                     <tr>
+                        {canModerate && (
+                            <th style={styles.th}>
+                                <input type="checkbox" checked={allOnPageSelected} onChange={togglePageSelected} aria-label="Select page" />
+                            </th>
+                        )}
                         <th style={styles.th}>ID</th>
+                        {!appliedQuery.letter && <th style={styles.th}>Letter</th>}
                         <th style={styles.th}>Flag</th>
                         <th style={styles.th}>Nation Name</th>
                         <th style={styles.th}>Region</th>
                         <th style={styles.th}>Signed At</th>
-                        <th style={styles.th}>Actions</th>
+                        {tab === 'revoked' && <th style={styles.th}>Revoked</th>}
+                        {tab === 'withdrawn' && <th style={styles.th}>Withdrawn</th>}
+                        {canModerate && <th style={styles.th}>Actions</th>}
                     </tr>
                     </thead>
                     <tbody>
                     {signatures.map((signature) => (
                         <tr key={signature.id}>
+                            {canModerate && (
+                                <td style={styles.td}>
+                                    <input
+                                        type="checkbox"
+                                        checked={selectAllMatching || selectedIds.has(signature.id)}
+                                        onChange={() => toggleSelected(signature.id)}
+                                        aria-label={`Select ${signature.nationName}`}
+                                    />
+                                </td>
+                            )}
                             <td style={styles.td}>{signature.id}</td>
+                            {!appliedQuery.letter && <td style={styles.td}>{signature.letterTitle}</td>}
                             <td style={styles.td}>
                                 {signature.flagUrl && (
                                     <div style={styles.flagImageWrapper}>
@@ -234,17 +693,65 @@ export default function DashboardContent() {
                                     </div>
                                 )}
                             </td>
-                            <td style={styles.td}>{signature.nationName}</td>
-                            <td style={styles.td}>{signature.region || 'Unknown'}</td>
-                            <td style={styles.td}>{new Date(signature.signedAt).toLocaleString()}</td>
                             <td style={styles.td}>
-                                <button onClick={() => handleDelete(signature.id)} style={styles.deleteButton}>Delete</button>
+                                {signature.nationName}
+                                {signature.ceasedAt && <i> (ceased {new Date(signature.ceasedAt).toLocaleDateString()})</i>}
                             </td>
+                            <td style={styles.td}>
+                                {signature.region || 'Unknown'}
+                                {signature.isRegionDelegate && ' (delegate)'}
+                                {signature.isRegionFounder && ' (founder)'}
+                            </td>
+                            <td style={styles.td}>{new Date(signature.signedAt).toLocaleString()}</td>
+                            {tab === 'revoked' && (
+                                <td style={styles.td}>
+                                    {signature.revokedAt && new Date(signature.revokedAt).toLocaleString()} by {signature.revokedBy || 'unknown'}
+                                    <br />
+                                    <i>{signature.revocationReason}</i>
+                                    {signature.resignAllowed && <><br />Re-signing allowed</>}
+                                </td>
+                            )}
+                            {tab === 'withdrawn' && (
+                                <td style={styles.td}>
+                                    {signature.withdrawnAt && new Date(signature.withdrawnAt).toLocaleString()} by the signer
+                                </td>
+                            )}
+                            {canModerate && (
+                                <td style={styles.td}>
+                                    {tab !== 'revoked' ? (
+                                        <button onClick={() => handleRevoke(signature.id)} style={styles.deleteButton}>Revoke</button>
+                                    ) : (
+                                        <>
+                                            <button onClick={() => handleRestore(signature.id)} style={styles.restoreButton}>Restore</button>
+                                            {!signature.resignAllowed && (
+                                                <button onClick={() => handleAllowResign(signature.id)} style={styles.secondaryButton}>Allow re-sign</button>
+                                            )}
+                                        </>
+                                    )}
+                                </td>
+                            )}
                         </tr>
                     ))}
                     </tbody>
                 </table>
             )}
+            <div style={styles.pagination}>
+                <span>Page {cursorStack.length + 1} of {Math.max(1, Math.ceil(total / appliedQuery.limit))}</span>
+                <button onClick={handlePreviousPage} disabled={cursorStack.length === 0} style={styles.controlButton}>Previous</button>
+                <button onClick={handleNextPage} disabled={!nextCursor} style={styles.controlButton}>Next</button>
+            </div>
+
+            <CommentModerationSection canModerate={canModerate} onModerated={() => setAuditRefreshKey((key) => key + 1)} />
+
+            <AuditLogSection refreshKey={auditRefreshKey} />
+
+            <LettersSection canEdit={currentAdmin?.role === 'owner'} onChanged={fetchLetters} />
+
+            <NationCacheSection canTrigger={currentAdmin?.role === 'owner'} />
+
+            {currentAdmin?.role === 'owner' && <AdminUsersSection currentUserId={currentAdmin.id} />}
+
+            {currentAdmin?.role === 'owner' && <LoginLockoutsSection />}
         </>
     );
 }
\ No newline at end of file
@@ -0,0 +1,407 @@
+// app/admin/dashboard/LettersSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+export interface Letter {
+    id: number;
+    slug: string;
+    title: string;
+    subtitle: string | null;
+    embedUrl: string | null;
+    countCeasedSigners: boolean;
+    bannedCommentWords: string[];
+    status: 'draft' | 'open' | 'closed';
+    openAt: string | null;
+    closeAt: string | null;
+    signatureCount: number;
+    currentVersion: number | null;
+    body: string | null; // Markdown of the current version
+    updatedAt: string;
+    updatedBy: string | null;
+}
+
+// The form's state; the banned words are edited one per line, and times in the admin's own time zone
+interface LetterDraft {
+    slug: string;
+    title: string;
+    subtitle: string;
+    embedUrl: string;
+    countCeasedSigners: boolean;
+    bannedCommentWords: string;
+    body: string;
+    status: Letter['status'];
+    openAt: string;
+    closeAt: string;
+}
+
+// New letters start as drafts so they can be written before anyone can see them
+const EMPTY_DRAFT: LetterDraft = {
+    slug: '', title: '', subtitle: '', embedUrl: '', countCeasedSigners: true, bannedCommentWords: '', body: '', status: 'draft', openAt: '', closeAt: '',
+};
+
+const STATUS_LABELS: Record<Letter['status'], string> = {
+    draft: 'Draft',
+    open: 'Open',
+    closed: 'Closed',
+};
+
+// <input type="datetime-local"> works in local time without a zone, while the API sends and expects ISO timestamps
+function toLocalInput(timestamp: string | null): string {
+    if (!timestamp) return '';
+    const date = new Date(timestamp);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+function toDraft(letter: Letter): LetterDraft {
+    return {
+        slug: letter.slug,
+        title: letter.title,
+        subtitle: letter.subtitle ?? '',
+        embedUrl: letter.embedUrl ?? '',
+        countCeasedSigners: letter.countCeasedSigners,
+        bannedCommentWords: letter.bannedCommentWords.join('\n'),
+        body: letter.body ?? '',
+        status: letter.status,
+        openAt: toLocalInput(letter.openAt),
+        closeAt: toLocalInput(letter.closeAt),
+    };
+}
+
+interface LettersSectionProps {
+    // Only owners may create or change letters; everyone else sees them read-only
+    canEdit: boolean;
+    // Called after a letter is created or changed, so the signature filter can list it
+    onChanged: () => void;
+}
+
+/**
+ * The open letters hosted by this deployment, with the settings that change how each one presents and counts its signatures.
+ */
+export default function LettersSection({ canEdit, onChanged }: LettersSectionProps) {
+    const [letters, setLetters] = useState<Letter[]>([]);
+    // The letter open in the form: an id, 'new' for a letter being created, or null when the form is closed
+    const [editing, setEditing] = useState<number | 'new' | null>(null);
+    const [draft, setDraft] = useState<LetterDraft>(EMPTY_DRAFT);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginBottom: '1rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            textAlign: 'left',
+            verticalAlign: 'middle',
+        },
+        panel: {
+            textAlign: 'left',
+            padding: '12px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            backgroundColor: '#f9f9f9',
+            marginBottom: '2rem',
+        },
+        label: {
+            display: 'block',
+            marginTop: '0.75rem',
+        },
+        input: {
+            width: '100%',
+            padding: '6px',
+            marginTop: '4px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+        },
+        textarea: {
+            width: '100%',
+            minHeight: '6em',
+            marginTop: '4px',
+            fontFamily: 'inherit',
+        },
+        bodyTextarea: {
+            width: '100%',
+            minHeight: '20em',
+            marginTop: '4px',
+            fontFamily: 'monospace',
+        },
+        saveButton: {
+            marginTop: '10px',
+            marginRight: '6px',
+            padding: '6px 12px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        secondaryButton: {
+            padding: '6px 10px',
+            backgroundColor: '#95a5a6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        meta: {
+            fontSize: '0.85rem',
+            color: '#666',
+            margin: '8px 0 0',
+        },
+        errorText: {
+            color: 'red',
+            fontWeight: 'bold',
+        },
+    };
+
+    const fetchLetters = useCallback(async () => {
+        try {
+            const response = await fetch('/api/admin/letters');
+            if (!response.ok) {
+                throw new Error('Failed to fetch letters');
+            }
+            const data: Letter[] = await response.json();
+            setLetters(data);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchLetters();
+    }, [fetchLetters]);
+
+    const openLetter = (letter: Letter | null) => {
+        setEditing(letter ? letter.id : 'new');
+        setDraft(letter ? toDraft(letter) : EMPTY_DRAFT);
+        setError(null);
+    };
+
+    const updateDraft = <K extends keyof LetterDraft>(key: K, value: LetterDraft[K]) => {
+        setDraft((previous) => ({ ...previous, [key]: value }));
+    };
+
+    // Closing set the closing time to when it happened; reopening clears a time that has passed, as the server requires
+    const changeStatus = (status: Letter['status']) => {
+        setDraft((previous) => ({
+            ...previous,
+            status,
+            closeAt: previous.status === 'closed' && status === 'open' && previous.closeAt && new Date(previous.closeAt) <= new Date() ? '' : previous.closeAt,
+        }));
+    };
+
+    const editingLetter = letters.find((letter) => letter.id === editing);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError(null);
+        try {
+            const fields: Record<string, unknown> = {
+                slug: draft.slug,
+                title: draft.title,
+                subtitle: draft.subtitle,
+                embedUrl: draft.embedUrl,
+                countCeasedSigners: draft.countCeasedSigners,
+                bannedCommentWords: draft.bannedCommentWords.split('\n'),
+                status: draft.status,
+                openAt: fromLocalInput(draft.openAt),
+                closeAt: fromLocalInput(draft.closeAt),
+            };
+            // Only a changed text is sent, since every save of it publishes a new version
+            if (draft.body.trim() && draft.body !== (editingLetter?.body ?? '')) {
+                fields.body = draft.body;
+            }
+            const response = await fetch('/api/admin/letters', {
+                method: editing === 'new' ? 'POST' : 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(editing === 'new' ? fields : { id: editing, ...fields }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to save the letter');
+            }
+            setEditing(null);
+            fetchLetters(); // Refresh the list after saving
+            onChanged();
+        } catch (err: any) {
+            console.error('Error saving letter:', err);
+            setError(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Letters</h2>
+            {error && <p style={styles.errorText}>Error: {error}</p>}
+            <table style={styles.table}>
+                <thead>
+                <tr>
+                    <th style={styles.th}>Title</th>
+                    <th style={styles.th}>Address</th>
+                    <th style={styles.th}>Status</th>
+                    <th style={styles.th}>Version</th>
+                    <th style={styles.th}>Signatures</th>
+                    <th style={styles.th}></th>
+                </tr>
+                </thead>
+                <tbody>
+                {letters.map((letter) => (
+                    <tr key={letter.id}>
+                        <td style={styles.td}>{letter.title}</td>
+                        <td style={styles.td}><a href={`/letters/${letter.slug}`}>/letters/{letter.slug}</a></td>
+                        <td style={styles.td}>{STATUS_LABELS[letter.status]}</td>
+                        <td style={styles.td}>{letter.currentVersion ?? 'None'}</td>
+                        <td style={styles.td}>{letter.signatureCount}</td>
+                        <td style={styles.td}>
+                            <button onClick={() => openLetter(letter)} style={styles.secondaryButton}>{canEdit ? 'Edit' : 'Settings'}</button>
+                        </td>
+                    </tr>
+                ))}
+                </tbody>
+            </table>
+            {canEdit && editing === null && (
+                <button onClick={() => openLetter(null)} style={styles.saveButton}>New letter</button>
+            )}
+            {editing !== null && (
+                <form onSubmit={handleSave} style={styles.panel}>
+                    <label style={styles.label}>
+                        Title
+                        <input type="text" value={draft.title} onChange={(e) => updateDraft('title', e.target.value)} disabled={!canEdit} required style={styles.input} />
+                    </label>
+                    <label style={styles.label}>
+                        Subtitle (optional)
+                        <input type="text" value={draft.subtitle} onChange={(e) => updateDraft('subtitle', e.target.value)} disabled={!canEdit} style={styles.input} />
+                    </label>
+                    <label style={styles.label}>
+                        Address: /letters/
+                        <input
+                            type="text"
+                            value={draft.slug}
+                            onChange={(e) => updateDraft('slug', e.target.value)}
+                            disabled={!canEdit}
+                            required
+                            placeholder="e.g. on-separatist-peoples"
+                            style={styles.input}
+                        />
+                    </label>
+                    {editing !== 'new' && <p style={styles.meta}>Changing the address breaks links that have already been shared.</p>}
+                    <label style={styles.label}>
+                        Status
+                        <select
+                            value={draft.status}
+                            onChange={(e) => changeStatus(e.target.value as Letter['status'])}
+                            disabled={!canEdit}
+                            style={styles.input}
+                        >
+                            {(Object.keys(STATUS_LABELS) as Letter['status'][]).map((status) => (
+                                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <p style={styles.meta}>
+                        Drafts are hidden from the public. Closing a letter stops signing and withdrawals and freezes its list of signatures.
+                    </p>
+                    <label style={styles.label}>
+                        Signing opens at (optional)
+                        <input type="datetime-local" value={draft.openAt} onChange={(e) => updateDraft('openAt', e.target.value)} disabled={!canEdit} style={styles.input} />
+                    </label>
+                    <label style={styles.label}>
+                        Signing closes at (optional)
+                        <input type="datetime-local" value={draft.closeAt} onChange={(e) => updateDraft('closeAt', e.target.value)} disabled={!canEdit} style={styles.input} />
+                    </label>
+                    <p style={styles.meta}>
+                        An open letter takes signatures between these times, in your time zone. Closing it sets the closing time to now;
+                        reopening it clears that time, so set a new one if the letter should close again.
+                    </p>
+                    <label style={styles.label}>
+                        Embedded document URL (optional)
+                        <input
+                            type="url"
+                            value={draft.embedUrl}
+                            onChange={(e) => updateDraft('embedUrl', e.target.value)}
+                            disabled={!canEdit}
+                            placeholder="https://docs.google.com/document/d/e/.../pub?embedded=true"
+                            style={styles.input}
+                        />
+                    </label>
+                    <p style={styles.meta}>Shown in place of the text until the first version of it is published.</p>
+                    <label htmlFor="letterBody" style={styles.label}>
+                        Text of the letter (Markdown)
+                    </label>
+                    <textarea
+                        id="letterBody"
+                        value={draft.body}
+                        onChange={(e) => updateDraft('body', e.target.value)}
+                        disabled={!canEdit}
+                        style={styles.bodyTextarea}
+                    />
+                    <p style={styles.meta}>
+                        {editingLetter?.currentVersion
+                            ? `Currently at version ${editingLetter.currentVersion}. Saving a changed text publishes version ${editingLetter.currentVersion + 1}; earlier versions stay readable.`
+                            : 'Saving a text publishes it as version 1.'}{' '}
+                        Signatures record the version that was current when they were made.
+                    </p>
+                    <label style={styles.label}>
+                        <input
+                            type="checkbox"
+                            checked={draft.countCeasedSigners}
+                            onChange={(e) => updateDraft('countCeasedSigners', e.target.checked)}
+                            disabled={!canEdit}
+                        />{' '}
+                        Count signatures from nations that have ceased to exist
+                    </label>
+                    <p style={styles.meta}>Ceased signers are always listed, marked as ceased.</p>
+                    <label htmlFor="bannedCommentWords" style={styles.label}>
+                        Words and phrases not allowed in signer comments, one per line
+                    </label>
+                    <textarea
+                        id="bannedCommentWords"
+                        value={draft.bannedCommentWords}
+                        onChange={(e) => updateDraft('bannedCommentWords', e.target.value)}
+                        disabled={!canEdit}
+                        style={styles.textarea}
+                    />
+                    <p style={styles.meta}>Comments containing one of these as a whole word are refused when the signer submits them.</p>
+                    {canEdit && (
+                        <button type="submit" disabled={saving} style={styles.saveButton}>
+                            {saving ? 'Saving...' : editing === 'new' ? 'Create letter' : 'Save letter'}
+                        </button>
+                    )}
+                    <button type="button" onClick={() => setEditing(null)} style={styles.secondaryButton}>Close</button>
+                    {editingLetter && (
+                        <p style={styles.meta}>
+                            Last changed {new Date(editingLetter.updatedAt).toLocaleString()}
+                            {editingLetter.updatedBy && ` by ${editingLetter.updatedBy}`}.
+                        </p>
+                    )}
+                </form>
+            )}
+        </>
+    );
+}
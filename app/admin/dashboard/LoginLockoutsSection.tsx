@@ -0,0 +1,141 @@
+// app/admin/dashboard/LoginLockoutsSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface LockoutEvent {
+    id: number;
+    kind: 'account' | 'ip';
+    key: string;
+    failures: number;
+    lockedUntil: string;
+    ipAddress: string | null;
+    createdAt: string;
+    active: boolean;
+}
+
+/**
+ * Owner-only list of admin login lockouts, with a way to lift one that is still in force.
+ */
+export default function LoginLockoutsSection() {
+    const [events, setEvents] = useState<LockoutEvent[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginBottom: '2rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '8px',
+            textAlign: 'left',
+            verticalAlign: 'middle',
+        },
+        unlockButton: {
+            padding: '6px 10px',
+            backgroundColor: '#27ae60',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+        },
+        errorText: {
+            color: 'red',
+            fontWeight: 'bold',
+        },
+    };
+
+    const fetchEvents = useCallback(async () => {
+        try {
+            const response = await fetch('/api/admin/lockouts');
+            if (!response.ok) {
+                throw new Error('Failed to fetch login lockouts');
+            }
+            const data: LockoutEvent[] = await response.json();
+            setEvents(data);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [fetchEvents]);
+
+    const handleUnlock = async (event: LockoutEvent) => {
+        if (!confirm(`Lift the lockout on ${event.kind} "${event.key}"?`)) {
+            return;
+        }
+        try {
+            const response = await fetch('/api/admin/lockouts', {
+                method: 'DELETE',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ kind: event.kind, key: event.key }),
+            });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to lift lockout');
+            }
+            fetchEvents(); // Refresh the list after action
+        } catch (err: any) {
+            console.error('Error lifting lockout:', err);
+            setError(err.message);
+        }
+    };
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Login Lockouts</h2>
+            {error && <p style={styles.errorText}>Error: {error}</p>}
+            {events.length === 0 ? (
+                <p>No lockouts recorded.</p>
+            ) : (
+                <table style={styles.table}>
+                    <thead>
+                    <tr>
+                        <th style={styles.th}>When</th>
+                        <th style={styles.th}>Locked</th>
+                        <th style={styles.th}>From IP</th>
+                        <th style={styles.th}>Failures</th>
+                        <th style={styles.th}>Until</th>
+                        <th style={styles.th}>Actions</th>
+                    </tr>
+                    </thead>
+                    <tbody>
+                    {events.map((event) => (
+                        <tr key={event.id}>
+                            <td style={styles.td}>{new Date(event.createdAt).toLocaleString()}</td>
+                            <td style={styles.td}>{event.kind}: {event.key}</td>
+                            <td style={styles.td}>{event.ipAddress || '—'}</td>
+                            <td style={styles.td}>{event.failures}</td>
+                            <td style={styles.td}>{new Date(event.lockedUntil).toLocaleString()}</td>
+                            <td style={styles.td}>
+                                {event.active && (
+                                    <button onClick={() => handleUnlock(event)} style={styles.unlockButton}>Unlock</button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+}
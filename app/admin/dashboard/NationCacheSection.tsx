@@ -0,0 +1,302 @@
+// app/admin/dashboard/NationCacheSection.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface DumpImportStatus {
+    running: boolean;
+    phase: string | null;
+    bytesDownloaded: number;
+    totalBytes: number | null;
+    nationsProcessed: number;
+    startedAt: string | null;
+    heartbeatAt: string | null;
+    finishedAt: string | null;
+    startedBy: string | null;
+    lastSuccess: boolean | null;
+    lastMessage: string | null;
+}
+
+interface DumpRun {
+    id: number;
+    startedAt: string;
+    finishedAt: string | null;
+    startedBy: string;
+    status: 'running' | 'succeeded' | 'partial' | 'failed' | 'abandoned';
+    bytesDownloaded: number;
+    nationsProcessed: number;
+    regionsProcessed: number | null;
+    durationMs: number | null;
+    message: string | null;
+    error: string | null;
+}
+
+interface NsApiStatus {
+    queueDepth: { interactive: number; background: number };
+    requestsInWindow: number;
+    windowLimit: number;
+    blockedUntil: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+interface NationCacheSectionProps {
+    // Only owners may start an import
+    canTrigger: boolean;
+}
+
+function formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number | null): string {
+    if (ms === null) return '—';
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Shows the state of the nations dump import and lets owners start one, polling for live progress while it runs.
+ */
+export default function NationCacheSection({ canTrigger }: NationCacheSectionProps) {
+    const [status, setStatus] = useState<DumpImportStatus | null>(null);
+    const [nsApi, setNsApi] = useState<NsApiStatus | null>(null);
+    const [triggering, setTriggering] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [runs, setRuns] = useState<DumpRun[]>([]);
+    const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        sectionTitle: {
+            fontSize: '1.8rem',
+            marginTop: '2rem',
+            marginBottom: '1rem',
+            color: '#2c3e50',
+            textAlign: 'left',
+        },
+        panel: {
+            textAlign: 'left',
+            padding: '12px',
+            border: '1px solid #ddd',
+            borderRadius: '4px',
+            backgroundColor: '#f9f9f9',
+            marginBottom: '2rem',
+        },
+        progressTrack: {
+            width: '100%',
+            height: '10px',
+            backgroundColor: '#e0e0e0',
+            borderRadius: '5px',
+            overflow: 'hidden',
+            margin: '8px 0',
+        },
+        button: {
+            padding: '8px 15px',
+            backgroundColor: '#3498db',
+            color: 'white',
+            border: 'none',
+            borderRadius: '5px',
+            cursor: 'pointer',
+        },
+        table: {
+            width: '100%',
+            borderCollapse: 'collapse',
+            marginTop: '1rem',
+        },
+        th: {
+            border: '1px solid #ddd',
+            padding: '6px',
+            backgroundColor: '#f2f2f2',
+            textAlign: 'left',
+        },
+        td: {
+            border: '1px solid #ddd',
+            padding: '6px',
+            textAlign: 'left',
+            verticalAlign: 'top',
+        },
+        errorDetails: {
+            fontSize: '0.8rem',
+            whiteSpace: 'pre-wrap',
+            margin: '6px 0 0',
+        },
+        linkButton: {
+            background: 'none',
+            border: 'none',
+            color: '#3498db',
+            cursor: 'pointer',
+            padding: 0,
+        },
+        success: {
+            color: 'green',
+        },
+        failure: {
+            color: 'red',
+        },
+    };
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            const response = await fetch('/api/admin/dump-status');
+            if (response.ok) {
+                const data = await response.json();
+                setStatus(data.status);
+                setNsApi(data.nsApi);
+            }
+        } catch (err) {
+            console.error('Error fetching dump import status:', err);
+        }
+    }, []);
+
+    const fetchRuns = useCallback(async () => {
+        try {
+            const response = await fetch('/api/admin/dump-runs');
+            if (response.ok) {
+                setRuns(await response.json());
+            }
+        } catch (err) {
+            console.error('Error fetching dump run history:', err);
+        }
+    }, []);
+
+    const isRunning = triggering || Boolean(status?.running);
+
+    useEffect(() => {
+        fetchStatus();
+        fetchRuns(); // Also refreshes history once a run finishes
+        if (!isRunning) return;
+
+        const intervalId = setInterval(fetchStatus, POLL_INTERVAL_MS);
+        return () => clearInterval(intervalId); // Cleanup interval when the import finishes or on unmount
+    }, [fetchStatus, fetchRuns, isRunning]);
+
+    const handleTrigger = async () => {
+        if (!confirm('Download and import the full NationStates nations dump now? This can take several minutes.')) {
+            return;
+        }
+        setTriggering(true);
+        setMessage(null);
+        try {
+            // This request stays open for the whole import; progress comes from polling meanwhile
+            const response = await fetch('/api/trigger-dump-update', { method: 'POST' });
+            const data = await response.json();
+            setMessage(data.message || (response.ok ? 'Import finished.' : 'Import failed.'));
+        } catch (err) {
+            console.error('Error triggering dump import:', err);
+            setMessage('Network error or server unavailable. The import may still be running.');
+        } finally {
+            setTriggering(false);
+            fetchStatus();
+        }
+    };
+
+    const downloadFraction = status?.totalBytes ? Math.min(status.bytesDownloaded / status.totalBytes, 1) : null;
+
+    return (
+        <>
+            <h2 style={styles.sectionTitle}>Nation Cache</h2>
+            <div style={styles.panel}>
+                {status?.running ? (
+                    <>
+                        <p>
+                            Import running since {status.startedAt && new Date(status.startedAt).toLocaleString()}
+                            {status.startedBy && ` (started by ${status.startedBy})`}: <b>{status.phase}</b>
+                        </p>
+                        {status.phase === 'downloading' && (
+                            <>
+                                <div style={styles.progressTrack}>
+                                    <div style={{
+                                        width: `${Math.round((downloadFraction ?? 0) * 100)}%`,
+                                        height: '100%',
+                                        backgroundColor: '#3498db',
+                                    }} />
+                                </div>
+                                <p>
+                                    Downloaded {formatMegabytes(status.bytesDownloaded)}
+                                    {status.totalBytes && ` of ${formatMegabytes(status.totalBytes)}`}
+                                </p>
+                            </>
+                        )}
+                        <p>
+                            {status.nationsProcessed.toLocaleString()} nations processed so far.
+                            {status.phase === 'swapping' && ' Replacing the live cache with the new dump.'}
+                            {status.phase === 'regions' && ' Now importing the regions dump.'}
+                        </p>
+                    </>
+                ) : status?.finishedAt ? (
+                    <p>
+                        Last import finished {new Date(status.finishedAt).toLocaleString()}:{' '}
+                        <span style={status.lastSuccess ? styles.success : styles.failure}>{status.lastMessage}</span>
+                    </p>
+                ) : (
+                    <p>No import has run yet.</p>
+                )}
+
+                {message && <p>{message}</p>}
+
+                {nsApi && (
+                    <p>
+                        NationStates API: {nsApi.requestsInWindow} of {nsApi.windowLimit} requests used in the last 30 seconds;{' '}
+                        {nsApi.queueDepth.interactive} interactive and {nsApi.queueDepth.background} background requests queued on this server.
+                        {nsApi.blockedUntil && (
+                            <span style={styles.failure}> Paused by NationStates until {new Date(nsApi.blockedUntil).toLocaleTimeString()}.</span>
+                        )}
+                    </p>
+                )}
+
+                {canTrigger && (
+                    <button onClick={handleTrigger} disabled={isRunning} style={styles.button}>
+                        {isRunning ? 'Import running...' : 'Refresh nation cache now'}
+                    </button>
+                )}
+
+                {runs.length > 0 && (
+                    <table style={styles.table}>
+                        <thead>
+                        <tr>
+                            <th style={styles.th}>Started</th>
+                            <th style={styles.th}>By</th>
+                            <th style={styles.th}>Outcome</th>
+                            <th style={styles.th}>Duration</th>
+                            <th style={styles.th}>Downloaded</th>
+                            <th style={styles.th}>Nations</th>
+                            <th style={styles.th}>Regions</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {runs.map((run) => (
+                            <tr key={run.id}>
+                                <td style={styles.td}>{new Date(run.startedAt).toLocaleString()}</td>
+                                <td style={styles.td}>{run.startedBy}</td>
+                                <td style={styles.td}>
+                                    <span style={run.status === 'succeeded' || run.status === 'partial' ? styles.success : run.status === 'running' ? undefined : styles.failure}>
+                                        {run.status}
+                                    </span>
+                                    {run.error && (
+                                        <div>
+                                            <button
+                                                type="button"
+                                                onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                                                style={styles.linkButton}
+                                            >
+                                                {expandedRunId === run.id ? 'Hide error' : 'Show error'}
+                                            </button>
+                                            {expandedRunId === run.id && <pre style={styles.errorDetails}>{run.error}</pre>}
+                                        </div>
+                                    )}
+                                </td>
+                                <td style={styles.td}>{formatDuration(run.durationMs)}</td>
+                                <td style={styles.td}>{formatMegabytes(run.bytesDownloaded)}</td>
+                                <td style={styles.td}>{run.nationsProcessed.toLocaleString()}</td>
+                                <td style={styles.td}>{run.regionsProcessed === null ? '—' : run.regionsProcessed.toLocaleString()}</td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </>
+    );
+}
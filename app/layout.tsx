@@ -3,8 +3,8 @@ import './globals.css';
 import { initializeDatabase } from '../lib/db'; // Import the initialization function
 
 export const metadata = {
-    title: 'On Separatist Peoples',
-    description: 'An Open Letter to Site Staff.',
+    title: 'Open Letters',
+    description: 'Open letters to NationStates site staff, signed by verified nations.',
 };
 
 export default async function RootLayout({ // Make RootLayout async
@@ -0,0 +1,212 @@
+// app/letters/[slug]/LetterSignatures.tsx
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { useEffect, useState, useCallback } from 'react'; // Import useCallback
+
+interface Signature {
+    id: number;
+    nationName: string;
+    signedAt: string; // This is the ISO string from the DB
+    flagUrl?: string;
+    region?: string;
+    isRegionDelegate?: boolean;
+    isRegionFounder?: boolean;
+    ceasedAt?: string | null;
+    counted?: boolean;
+    comment?: string | null; // Only sent once approved
+    letterVersion?: number | null;
+}
+
+interface LetterSignaturesProps {
+    slug: string;
+    // The version of the text shown above the list, or null if the letter has none yet
+    currentVersion: number | null;
+}
+
+// Import the time formatting utility
+import { formatTimeAgo } from '../../../lib/utils';
+
+/**
+ * The public, live-updating list of a letter's signatures.
+ */
+export default function LetterSignatures({ slug, currentVersion }: LetterSignaturesProps) {
+    const [signatures, setSignatures] = useState<Signature[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [currentTime, setCurrentTime] = useState(Date.now()); // State to trigger re-renders for time updates
+
+    // Function to fetch signatures, wrapped in useCallback for efficiency
+    const fetchSignatures = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/signatures?letter=${encodeURIComponent(slug)}`);
+            if (!response.ok) {
+                throw new Error('Failed to fetch signatures');
+            }
+            const data: Signature[] = await response.json();
+            setSignatures(data);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    }, [slug]); // Only changes when navigating to another letter
+
+    useEffect(() => {
+        fetchSignatures(); // Initial fetch
+
+        // Set up interval for refreshing the "time ago" string
+        const intervalId = setInterval(() => {
+            setCurrentTime(Date.now()); // Update state to trigger re-render of time strings
+        }, 10 * 1000); // Update every 10 seconds
+
+        return () => clearInterval(intervalId); // Cleanup interval on component unmount
+    }, [fetchSignatures]); // Re-run effect if fetchSignatures changes (though it won't with useCallback)
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        signaturesHeader: {
+            marginBottom: '1rem',
+        },
+        signatureList: {
+            listStyleType: 'none',
+            textAlign: 'left',
+            backgroundColor: '#F9F9F9',
+            border: '1px solid #DDD',
+            borderRadius: '8px',
+            padding: '0.5em',
+            marginRight: '10%',
+            marginLeft: 'auto',
+            maxWidth: 'calc(100% - 20%)',
+        },
+        signatureItem: {
+            padding: '8px 0',
+            borderBottom: '1px dashed #DDD',
+            display: 'flex',
+            alignItems: 'center',
+            fontSize: '10pt',
+            color: 'black',
+        },
+        flagImageWrapper: {
+            height: '24px',
+            display: 'inline-flex',
+            alignItems: 'center',
+            justifyContent: 'flex-start',
+            overflow: 'hidden',
+            marginRight: '10px',
+            border: '1px solid #999',
+            filter: 'drop-shadow(0 0 1.2px #999)',
+            flexShrink: 0,
+        },
+        flagImage: {
+            height: '100%',
+            width: 'auto',
+            objectFit: 'contain',
+        },
+        errorText: {
+            color: '#FF3333',
+            fontWeight: 'bold',
+            border: 'solid 2px #CC6666',
+            borderRadius: '12px',
+            padding: '1em',
+            margin: '0.5em auto',
+            maxWidth: '75%',
+            backgroundColor: 'white',
+        },
+        regionRole: {
+            marginLeft: '6px',
+            padding: '1px 6px',
+            fontSize: '85%',
+            backgroundColor: '#EAEAE2',
+            border: '1px solid #DADAD2',
+            borderRadius: '0.6em',
+            whiteSpace: 'nowrap',
+        },
+        ceasedSignatureItem: {
+            color: '#888',
+        },
+        signatureComment: {
+            display: 'block',
+            marginTop: '2px',
+            fontStyle: 'italic',
+            color: '#444',
+            overflowWrap: 'anywhere',
+        },
+        versionLabel: {
+            marginLeft: '6px',
+            fontSize: '85%',
+            color: '#888',
+        },
+        ceasedLabel: {
+            marginLeft: '6px',
+            fontSize: '85%',
+            fontStyle: 'italic',
+            color: '#888',
+        },
+        // Style for the time element
+        signedAtTime: {
+            fontSize: '90%', // Smaller font size for timestamp
+            color: '#666', // Greyed out color
+            marginLeft: 'auto', // Push it to the right
+            whiteSpace: 'nowrap', // Prevent wrapping
+        }
+    };
+
+    return (
+        <>
+                <h2 style={styles.signaturesHeader}>
+                    Signatures{!loading && !error && ` (${signatures.filter((signature) => signature.counted !== false).length})`}:
+                </h2>
+                {loading ? (
+                    <p>Loading signatures...</p>
+                ) : error ? (
+                    <p style={styles.errorText}>Error: {error}</p>
+                ) : signatures.length === 0 ? (
+                    <p>No signatures yet. Be the first to sign!</p>
+                ) : (
+                    <ul style={styles.signatureList}>
+                        {signatures.map((signature) => (
+                            <li
+                                key={signature.id}
+                                style={signature.ceasedAt ? { ...styles.signatureItem, ...styles.ceasedSignatureItem } : styles.signatureItem}
+                            >
+                                {signature.flagUrl && (
+                                    <div style={styles.flagImageWrapper}>
+                                        <Image
+                                            src={signature.flagUrl}
+                                            alt={`${signature.nationName} flag`}
+                                            width={100}
+                                            height={24}
+                                            style={styles.flagImage}
+                                            unoptimized={true}
+                                        />
+                                    </div>
+                                )}
+                                <span style={{flexGrow: 1, textAlign: 'left'}}>
+                                    <b>{signature.nationName}</b> ({signature.region || 'Unknown'})
+                                    {signature.isRegionDelegate && <span style={styles.regionRole}>Delegate of {signature.region}</span>}
+                                    {signature.isRegionFounder && <span style={styles.regionRole}>Founder of {signature.region}</span>}
+                                    {signature.ceasedAt && (
+                                        <span style={styles.ceasedLabel}>
+                                            ceased to exist (noticed {new Date(signature.ceasedAt).toLocaleDateString()})
+                                            {signature.counted === false && ', not counted'}
+                                        </span>
+                                    )}
+                                    {signature.letterVersion && currentVersion && signature.letterVersion < currentVersion && (
+                                        <Link href={`/letters/${slug}/versions#version-${signature.letterVersion}`} style={styles.versionLabel}>
+                                            signed version {signature.letterVersion}
+                                        </Link>
+                                    )}
+                                    {signature.comment && <q style={styles.signatureComment}>{signature.comment}</q>}
+                </span>
+                                {/* Use the <time> element as requested */}
+                                <time dateTime={signature.signedAt} style={styles.signedAtTime}>
+                                    {formatTimeAgo(new Date(signature.signedAt))}
+                                </time>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+        </>
+    );
+}
\ No newline at end of file
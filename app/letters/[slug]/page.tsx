@@ -0,0 +1,152 @@
+// app/letters/[slug]/page.tsx
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getPublishedLetterBySlug, getSigningWindow } from '../../../lib/letters';
+import { getCurrentLetterVersion, renderLetterMarkdown } from '../../../lib/letterVersions';
+import LetterSignatures from './LetterSignatures';
+
+// Always shows the latest published version of the text
+export const dynamic = 'force-dynamic';
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+        minHeight: '100vh',
+        padding: '0 0.5rem',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: '#EAEAE2',
+        color: 'black',
+    },
+    main: {
+        padding: '16px',
+        maxWidth: '800px',
+        width: '100%',
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        boxShadow: '3px 3px 12px #999',
+        textAlign: 'center',
+        margin: '20px 0',
+    },
+    title: {
+        marginBottom: '1.5rem',
+    },
+    subtitle: {
+        fontSize: '1.5em',
+        marginBottom: '1.5em',
+        fontWeight: 'normal'
+    },
+    letterText: {
+        textAlign: 'left',
+        lineHeight: 1.5,
+        padding: '0 1em',
+        overflowWrap: 'break-word',
+    },
+    versionNote: {
+        marginBottom: '2rem',
+        fontSize: '9pt',
+        color: '#666',
+    },
+    letterContentEmbed: {
+        width: '100%',
+        height: '600px',
+        marginBottom: '2rem',
+        border: '1px solid #CCC',
+        borderRadius: '8px',
+        overflow: 'hidden',
+        backgroundColor: '#F9F9F9',
+    },
+    iframe: {
+        width: '100%',
+        height: '100%',
+        border: 'none',
+    },
+    signButton: {
+        display: 'inline-block',
+        padding: '0.5em 2.5em',
+        backgroundColor: '#EAEAE2',
+        color: '#000000',
+        textDecoration: 'none',
+        borderRadius: '0.2em',
+        fontSize: '1.1rem',
+        fontWeight: 'bold',
+        boxShadow: '1px 1px 2px rgba(0,0,0,0.1)',
+        cursor: 'pointer',
+        transition: 'background-color 0.3s ease',
+        marginBottom: '2rem',
+    },
+    withdrawNote: {
+        marginTop: '-1.5rem',
+        marginBottom: '2rem',
+        fontSize: '9pt',
+        color: '#666',
+    },
+    closedNotice: {
+        fontWeight: 'bold',
+        marginBottom: '2rem',
+    },
+    backLink: {
+        display: 'block',
+        textAlign: 'left',
+        fontSize: '9pt',
+        color: '#666',
+    },
+};
+
+export default async function LetterPage({ params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = await params;
+    const letter = await getPublishedLetterBySlug(slug);
+    if (!letter) {
+        notFound();
+    }
+    const version = await getCurrentLetterVersion(letter.id);
+    const signing = getSigningWindow(letter);
+
+    return (
+        <div style={styles.container}>
+            <main style={styles.main}>
+                <Link href="/" style={styles.backLink}>&larr; All letters</Link>
+                <h1 style={styles.title}>{letter.title}</h1>
+
+                {letter.subtitle && <h2 style={styles.subtitle}>{letter.subtitle}</h2>}
+                {version ? (
+                    <>
+                        <div style={styles.letterText} dangerouslySetInnerHTML={{ __html: renderLetterMarkdown(version.body) }} />
+                        <p style={styles.versionNote}>
+                            Version {version.version}, published {new Date(version.createdAt).toLocaleDateString('en-GB', { dateStyle: 'long' })}.
+                            {version.version > 1 && <> <Link href={`/letters/${letter.slug}/versions`}>See what changed</Link>.</>}
+                        </p>
+                    </>
+                ) : letter.embedUrl && (
+                    // Letters from before the text was kept here show their embedded document until a version is published
+                    <div style={styles.letterContentEmbed}>
+                        <iframe
+                            src={letter.embedUrl}
+                            style={styles.iframe}
+                            frameBorder="0"
+                            allowFullScreen
+                        ></iframe>
+                    </div>
+                )}
+
+                {signing.state === 'closed' ? (
+                    <p style={styles.closedNotice}>
+                        Signatures closed on {signing.closedAt.toLocaleDateString('en-GB', { dateStyle: 'long' })}. The list below is final.
+                    </p>
+                ) : (
+                    <>
+                        <Link href={`/letters/${letter.slug}/sign`} passHref style={styles.signButton}>
+                            {signing.state === 'scheduled' ? 'Signing Opens Soon' : 'Sign the Letter'}
+                        </Link>
+                        <p style={styles.withdrawNote}>
+                            Signed and changed your mind? <Link href={`/letters/${letter.slug}/withdraw`}>Withdraw your signature</Link>.
+                        </p>
+                    </>
+                )}
+
+                <LetterSignatures slug={letter.slug} currentVersion={version?.version ?? null} />
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,410 @@
+// app/letters/[slug]/sign/page.tsx
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatCountdown } from '../../../../lib/utils';
+
+// Matches COMMENT_MAX_LENGTH in lib/comments.ts, which the server enforces
+const COMMENT_MAX_LENGTH = 280;
+
+// A site token issued by /api/verification-token for one sign attempt
+interface Verification {
+    nationName: string;
+    token: string;
+    verifyUrl: string;
+}
+
+// The letter's signing window as sent by /api/letters/[slug], see getSigningWindow in lib/letters.ts
+interface SigningWindow {
+    state: 'draft' | 'scheduled' | 'open' | 'closed';
+    opensAt?: string;
+    closesAt?: string | null;
+    closedAt?: string;
+}
+
+export default function SignLetter({ params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = use(params);
+    const [nationName, setNationName] = useState('');
+    const [checksum, setChecksum] = useState('');
+    const [comment, setComment] = useState('');
+    const [message, setMessage] = useState('');
+    const [isError, setIsError] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [verification, setVerification] = useState<Verification | null>(null);
+    const [isIssuing, setIsIssuing] = useState(false);
+    const router = useRouter();
+    const [letterTitle, setLetterTitle] = useState<string | null>(null);
+    const [signing, setSigning] = useState<SigningWindow | null>(null);
+    const [now, setNow] = useState(Date.now()); // Ticks while a countdown is shown
+
+    useEffect(() => {
+        fetch(`/api/letters/${encodeURIComponent(slug)}`)
+            .then(async (response) => {
+                if (response.ok) {
+                    const letter = await response.json();
+                    setLetterTitle(letter.title);
+                    setSigning(letter.signing);
+                } else if (response.status === 404) {
+                    setMessage('There is no letter at this address.');
+                    setIsError(true);
+                } else {
+                    setMessage('Could not load the letter. Please try again later.');
+                    setIsError(true);
+                }
+            })
+            .catch((error) => {
+                console.error('Error fetching letter:', error);
+                setMessage('Network error or server unavailable.');
+                setIsError(true);
+            });
+    }, [slug]);
+
+    // The window as of now, so the form opens and closes on time without reloading the page
+    let signingState = signing?.state;
+    if (signingState === 'scheduled' && new Date(signing!.opensAt!).getTime() <= now) {
+        signingState = 'open';
+    }
+    if (signingState !== 'closed' && signing?.closesAt && new Date(signing.closesAt).getTime() <= now) {
+        signingState = 'closed';
+    }
+    const counting = signingState === 'scheduled' || (signingState === 'open' && !!signing?.closesAt);
+
+    useEffect(() => {
+        if (!counting) return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [counting]);
+
+    const handleNationNameChange = (value: string) => {
+        setNationName(value);
+        // A token is bound to the nation it was issued for
+        if (verification && verification.nationName !== value) {
+            setVerification(null);
+        }
+    };
+
+    const handleGetVerificationLink = async () => {
+        setMessage('');
+        setIsError(false);
+
+        if (!nationName.trim()) {
+            setMessage('Please enter your nation name first.');
+            setIsError(true);
+            return;
+        }
+
+        setIsIssuing(true);
+        try {
+            const response = await fetch('/api/verification-token', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ nationName }),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                setVerification({ nationName, token: data.token, verifyUrl: data.verifyUrl });
+            } else {
+                setMessage(data.error || 'Could not create a verification link.');
+                setIsError(true);
+            }
+        } catch (error) {
+            console.error('Error requesting verification link:', error);
+            setMessage('Network error or server unavailable.');
+            setIsError(true);
+        } finally {
+            setIsIssuing(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setMessage('');
+        setIsError(false);
+        setIsLoading(true);
+
+        if (!nationName || !checksum) {
+            setMessage('Please enter both your nation name and the checksum code.');
+            setIsError(true);
+            setIsLoading(false);
+            return;
+        }
+        if (!verification) {
+            setMessage('Please get a verification link for your nation and open it before submitting.');
+            setIsError(true);
+            setIsLoading(false);
+            return;
+        }
+
+        try {
+            const response = await fetch('/api/sign', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ letter: slug, nationName, checksum, token: verification.token, comment: comment.trim() || undefined }),
+            });
+
+            const data = await response.json();
+
+            if (response.ok) {
+                setMessage(data.message);
+                setIsError(false);
+                setTimeout(() => {
+                    router.push(`/letters/${slug}`);
+                }, 2000);
+            } else {
+                setMessage(data.error || 'An unexpected error occurred.');
+                setIsError(true);
+            }
+        } catch (error) {
+            console.error('Error signing letter:', error);
+            setMessage('Network error or server unavailable.');
+            setIsError(true);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const styles: { [key: string]: React.CSSProperties } = {
+        container: {
+            minHeight: '100vh',
+            padding: '0 0.5rem',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            backgroundColor: '#EAEAE2',
+            color: 'black',
+        },
+        main: {
+            padding: '16px',
+            maxWidth: '600px',
+            width: '100%',
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            boxShadow: '3px 3px 12px #999',
+            textAlign: 'center',
+            margin: '20px 0',
+        },
+        title: {
+            marginBottom: '1.5rem',
+        },
+        letterTitle: {
+            fontSize: '1.2em',
+            fontWeight: 'normal',
+            fontStyle: 'italic',
+            marginTop: '-1rem',
+            marginBottom: '1.5rem',
+        },
+        instructions: {
+            fontSize: '10pt',
+            marginBottom: '1rem',
+            textAlign: 'left',
+            lineHeight: '1.5em',
+        },
+        instructionList: {
+            listStyleType: 'decimal',
+            textAlign: 'left',
+            paddingLeft: '20px',
+            marginBottom: '2rem',
+            lineHeight: '1.5',
+            fontSize: '10pt',
+        },
+        link: {
+            color: 'green',
+            wordBreak: 'break-all',
+        },
+        form: {
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '15px',
+            marginTop: '1rem',
+        },
+        formGroup: {
+            textAlign: 'left',
+        },
+        label: {
+            display: 'block',
+            marginBottom: '5px',
+            fontWeight: 'bold',
+            fontSize: '10pt',
+        },
+        input: {
+            width: '100%',
+        },
+        textarea: {
+            width: '100%',
+            minHeight: '4em',
+            fontFamily: 'inherit',
+        },
+        hint: {
+            fontSize: '9pt',
+            color: '#666',
+            marginTop: '2px',
+        },
+        button: {
+            padding: '0.5em 2.5em',
+            backgroundColor: '#EAEAE2',
+            color: '#000000',
+            border: '1px solid #DADAD2',
+            borderRadius: '0.2em',
+            fontSize: '1.1rem',
+            fontWeight: 'bold',
+            boxShadow: '1px 1px 2px rgba(0,0,0,0.1)',
+            cursor: 'pointer',
+            transition: 'background-color 0.3s ease',
+        },
+        secondaryButton: {
+            marginTop: '8px',
+            padding: '0.3em 1.2em',
+            backgroundColor: '#EAEAE2',
+            color: '#000000',
+            border: '1px solid #DADAD2',
+            borderRadius: '0.2em',
+            cursor: 'pointer',
+        },
+        errorMessage: {
+            color: '#FF3333',
+            marginTop: '1rem',
+            fontWeight: 'bold',
+            border: 'solid 2px #CC6666',
+            borderRadius: '12px',
+            padding: '1em',
+            margin: '0.5em auto',
+            maxWidth: '75%',
+            backgroundColor: 'white',
+        },
+        notice: {
+            fontWeight: 'bold',
+            border: 'solid 2px #DADAD2',
+            borderRadius: '12px',
+            padding: '1em',
+            margin: '0.5em auto',
+            maxWidth: '75%',
+            backgroundColor: '#F9F9F9',
+        },
+        successMessage: {
+            color: 'green',
+            marginTop: '1rem',
+            fontWeight: 'bold',
+            border: 'solid 2px #696',
+            borderRadius: '12px',
+            padding: '1em',
+            margin: '0.5em auto',
+            maxWidth: '75%',
+            backgroundColor: '#F0FFF0',
+        },
+    };
+
+    return (
+        <div style={styles.container}>
+            <main style={styles.main}>
+                <h1 style={styles.title}>Sign the Open Letter</h1>
+                {letterTitle && <h2 style={styles.letterTitle}>{letterTitle}</h2>}
+
+                {signingState === 'closed' ? (
+                    <p style={styles.notice}>
+                        Signatures closed on {new Date(signing!.closedAt ?? signing!.closesAt!).toLocaleString()}. Thank you to everyone who signed.
+                    </p>
+                ) : signingState === 'scheduled' ? (
+                    <p style={styles.notice}>
+                        Signatures open in <strong>{formatCountdown(new Date(signing!.opensAt!).getTime() - now)}</strong>,
+                        on {new Date(signing!.opensAt!).toLocaleString()}.
+                    </p>
+                ) : signingState === 'open' ? (
+                    <>
+                        {signing?.closesAt && (
+                            <p style={styles.hint}>
+                                Signatures close in {formatCountdown(new Date(signing.closesAt).getTime() - now)}, on {new Date(signing.closesAt).toLocaleString()}.
+                            </p>
+                        )}
+                        <p style={styles.instructions}>
+                            To sign the open letter, please verify your NationStates nation:
+                        </p>
+
+                        <ol style={styles.instructionList}>
+                            <li>
+                                Enter your Nation name below and press **Get verification link**. <br />
+                                {verification ? (
+                                    <a href={verification.verifyUrl} target="_blank" rel="noopener noreferrer" style={styles.link}>
+                                        {verification.verifyUrl.length > 70 ? `${verification.verifyUrl.substring(0, 67)}...` : verification.verifyUrl}
+                                    </a>
+                                ) : (
+                                    '(The link is made for your nation and can only be used once.)'
+                                )}
+                                <br />
+                                (Make sure you are logged into NationStates as **{nationName || '[Your Nation Name]'}**.)
+                            </li>
+                            <li>
+                                Copy the **checksum code** displayed on that page.
+                            </li>
+                            <li>
+                                Enter the checksum code below and submit.
+                            </li>
+                        </ol>
+
+                        <form onSubmit={handleSubmit} style={styles.form}>
+                            <div style={styles.formGroup}>
+                                <label htmlFor="nationName" style={styles.label}>Your Nation Name:</label>
+                                <input
+                                    type="text"
+                                    id="nationName"
+                                    value={nationName}
+                                    onChange={(e) => handleNationNameChange(e.target.value)}
+                                    required
+                                    style={styles.input}
+                                    placeholder="e.g., The United Island Tribes"
+                                />
+                                <button type="button" onClick={handleGetVerificationLink} disabled={isIssuing} style={styles.secondaryButton}>
+                                    {isIssuing ? 'Creating link...' : 'Get verification link'}
+                                </button>
+                            </div>
+
+                            <div style={styles.formGroup}>
+                                <label htmlFor="checksum" style={styles.label}>Checksum Code:</label>
+                                <input
+                                    type="text"
+                                    id="checksum"
+                                    value={checksum}
+                                    onChange={(e) => setChecksum(e.target.value)}
+                                    required
+                                    style={styles.input}
+                                    placeholder="e.g., 1234567890abcdefg"
+                                />
+                            </div>
+
+                            <div style={styles.formGroup}>
+                                <label htmlFor="comment" style={styles.label}>Why are you signing? (optional)</label>
+                                <textarea
+                                    id="comment"
+                                    value={comment}
+                                    onChange={(e) => setComment(e.target.value)}
+                                    maxLength={COMMENT_MAX_LENGTH}
+                                    style={styles.textarea}
+                                    placeholder="A sentence or two, shown under your nation once a moderator approves it"
+                                />
+                                <div style={styles.hint}>{comment.length}/{COMMENT_MAX_LENGTH} characters</div>
+                            </div>
+
+                            <button type="submit" disabled={isLoading} style={styles.button}>
+                                {isLoading ? 'Verifying...' : 'Submit Signature'}
+                            </button>
+                        </form>
+                    </>
+                ) : signingState === 'draft' ? (
+                    <p style={styles.notice}>This letter is not open for signatures.</p>
+                ) : null}
+
+                {message && (
+                    <p style={isError ? styles.errorMessage : styles.successMessage}>
+                        {message}
+                    </p>
+                )}
+            </main>
+        </div>
+    );
+}
\ No newline at end of file
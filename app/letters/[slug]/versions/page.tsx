@@ -0,0 +1,106 @@
+// app/letters/[slug]/versions/page.tsx
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getPublishedLetterBySlug } from '../../../../lib/letters';
+import { diffLetterVersions, listLetterVersions } from '../../../../lib/letterVersions';
+
+export const dynamic = 'force-dynamic';
+
+const styles: { [key: string]: React.CSSProperties } = {
+    container: {
+        minHeight: '100vh',
+        padding: '0 0.5rem',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: '#EAEAE2',
+        color: 'black',
+    },
+    main: {
+        padding: '16px',
+        maxWidth: '800px',
+        width: '100%',
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        boxShadow: '3px 3px 12px #999',
+        textAlign: 'center',
+        margin: '20px 0',
+    },
+    title: {
+        marginBottom: '1.5rem',
+    },
+    backLink: {
+        display: 'block',
+        textAlign: 'left',
+        fontSize: '9pt',
+        color: '#666',
+    },
+    version: {
+        textAlign: 'left',
+        marginBottom: '2rem',
+    },
+    versionMeta: {
+        fontSize: '9pt',
+        color: '#666',
+    },
+    diff: {
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'anywhere',
+        fontFamily: 'monospace',
+        fontSize: '10pt',
+        padding: '0.5em',
+        backgroundColor: '#F9F9F9',
+        border: '1px solid #DDD',
+        borderRadius: '8px',
+    },
+    added: {
+        backgroundColor: '#D4F4DD',
+        textDecoration: 'none',
+    },
+    removed: {
+        backgroundColor: '#F8D7DA',
+        color: '#842029',
+    },
+};
+
+/**
+ * Every published version of a letter, newest first, each shown as its changes against the one before.
+ */
+export default async function LetterVersionsPage({ params }: { params: Promise<{ slug: string }> }) {
+    const { slug } = await params;
+    const letter = await getPublishedLetterBySlug(slug);
+    if (!letter) {
+        notFound();
+    }
+    const versions = await listLetterVersions(letter.id);
+
+    return (
+        <div style={styles.container}>
+            <main style={styles.main}>
+                <Link href={`/letters/${letter.slug}`} style={styles.backLink}>&larr; {letter.title}</Link>
+                <h1 style={styles.title}>Versions of the letter</h1>
+
+                {versions.length === 0 && <p>No text has been published for this letter yet.</p>}
+                {versions.map((version, index) => ({ version, previous: versions[index - 1] })).reverse().map(({ version, previous }) => (
+                    <section key={version.id} id={`version-${version.version}`} style={styles.version}>
+                        <h2>Version {version.version}</h2>
+                        <p style={styles.versionMeta}>
+                            Published {new Date(version.createdAt).toLocaleString('en-GB', { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' })} UTC
+                            {previous ? `; changes from version ${previous.version} are highlighted.` : '.'}
+                        </p>
+                        <div style={styles.diff}>
+                            {previous
+                                ? diffLetterVersions(previous.body, version.body).map((part, partIndex) =>
+                                    part.added ? <ins key={partIndex} style={styles.added}>{part.value}</ins>
+                                    : part.removed ? <del key={partIndex} style={styles.removed}>{part.value}</del>
+                                    : <span key={partIndex}>{part.value}</span>
+                                )
+                                : version.body}
+                        </div>
+                    </section>
+                ))}
+            </main>
+        </div>
+    );
+}
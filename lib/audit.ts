@@ -0,0 +1,91 @@
+// lib/audit.ts
+import { db, Db, AuditLogRow } from './db';
+import type { AdminUser } from './auth';
+import { containsPattern } from './queryParams';
+
+// 'delete' only appears on entries written before signatures were soft-deleted;
+// 'merge' is written by the 'system' actor when the nation ID migration folds duplicate signatures together
+export type AuditAction = 'delete' | 'revoke' | 'restore' | 'clear' | 'merge' | 'approve-comment' | 'reject-comment' | 'withdraw';
+
+// Admins act as themselves; a signer withdrawing their own signature is recorded as "nation:<nation ID>" with no id
+export type AuditActor = Pick<AdminUser, 'username'> & { id: number | null };
+
+export interface AuditEvent {
+    actor: AuditActor;
+    action: AuditAction;
+    signatureId: number | null;
+    nationName: string | null;
+    snapshot: Record<string, unknown> | null;
+    reason: string | null;
+}
+
+export interface AuditLogFilters {
+    actor?: string;
+    action?: string;
+    nation?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+}
+
+const DEFAULT_AUDIT_LIMIT = 200;
+const MAX_AUDIT_LIMIT = 1000;
+
+/**
+ * Appends an entry to the signature audit log.
+ * Pass the transaction helper from `withTransaction` so the entry commits or rolls back with the mutation it describes.
+ */
+export async function recordAuditEvent(tx: Db, event: AuditEvent): Promise<void> {
+    await tx.run(
+        `INSERT INTO signature_audit_log ("actorId", "actorUsername", action, "signatureId", "nationName", snapshot, reason)
+         VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7)`,
+        [
+            event.actor.id,
+            event.actor.username,
+            event.action,
+            event.signatureId,
+            event.nationName,
+            event.snapshot ? JSON.stringify(event.snapshot) : null,
+            event.reason,
+        ]
+    );
+}
+
+/**
+ * Lists audit log entries, newest first, matching every filter that is set.
+ * `actor` and `nation` are case-insensitive substring matches; `action` is exact.
+ */
+export async function listAuditEvents(filters: AuditLogFilters): Promise<AuditLogRow[]> {
+    const conditions: string[] = [];
+    const params: (string | number | Date)[] = [];
+
+    if (filters.actor) {
+        params.push(containsPattern(filters.actor));
+        conditions.push(`"actorUsername" ILIKE $${params.length} ESCAPE '\\'`);
+    }
+    if (filters.action) {
+        params.push(filters.action);
+        conditions.push(`action = $${params.length}`);
+    }
+    if (filters.nation) {
+        params.push(containsPattern(filters.nation));
+        conditions.push(`"nationName" ILIKE $${params.length} ESCAPE '\\'`);
+    }
+    if (filters.from) {
+        params.push(filters.from);
+        conditions.push(`"createdAt" >= $${params.length}`);
+    }
+    if (filters.to) {
+        params.push(filters.to);
+        conditions.push(`"createdAt" <= $${params.length}`);
+    }
+
+    const limit = Math.min(Math.max(filters.limit || DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+    params.push(limit);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return db.all(
+        `SELECT * FROM signature_audit_log ${where} ORDER BY "createdAt" DESC, id DESC LIMIT $${params.length}`,
+        params
+    );
+}
@@ -1,8 +1,40 @@
 // lib/auth.ts
 import bcrypt from 'bcrypt';
-import { NextApiRequest } from 'next'; // Import NextApiRequest
+import * as crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next'; // Import NextApiRequest
+import { serialize } from 'cookie';
+import { db, AdminRole, AdminUserRow } from './db';
 
 const SALT_ROUNDS = 10; // For bcrypt hashing
+// Compared against when the username is unknown, so a login takes as long whether or not the account exists
+const DUMMY_PASSWORD_HASH = '$2b$10$vZonXN18n9cIKvgWKgQ/kuQ4jdwxnFtLdLgsSzXX261nmzYKv4f7G';
+
+export const SESSION_COOKIE_NAME = 'admin_session';
+const SESSION_DURATION_HOURS = 12;
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'moderator', 'owner'];
+
+// Higher rank includes every permission of the lower ranks
+const ROLE_RANK: Record<AdminRole, number> = {
+    viewer: 0,
+    moderator: 1,
+    owner: 2,
+};
+
+/** The acting admin, as returned by `isAuthenticated`. Never includes the password hash. */
+export interface AdminUser {
+    id: number;
+    username: string;
+    role: AdminRole;
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+}
+
+export function hasRole(admin: AdminUser, minimumRole: AdminRole): boolean {
+    return ROLE_RANK[admin.role] >= ROLE_RANK[minimumRole];
+}
 
 export async function hashAdminPassword(password: string): Promise<string> {
     return bcrypt.hash(password, SALT_ROUNDS);
@@ -12,9 +44,200 @@ export async function compareAdminPassword(password: string, hash: string): Prom
     return bcrypt.compare(password, hash);
 }
 
+function getSessionSecret(): string {
+    if (!process.env.ADMIN_SESSION_SECRET) {
+        throw new Error('ADMIN_SESSION_SECRET is not set. Cannot sign admin sessions.');
+    }
+    return process.env.ADMIN_SESSION_SECRET;
+}
+
+function signToken(token: string): string {
+    return crypto.createHmac('sha256', getSessionSecret()).update(token).digest('base64url');
+}
+
+// Only a hash of the token is stored, so a leaked sessions table cannot be replayed as cookies.
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Seeds the first owner account from `ADMIN_USERNAME`/`ADMIN_PASSWORD_HASH` when no admin accounts exist yet,
+ * so a fresh deployment can log in and create the rest of the team from the dashboard.
+ */
+export async function ensureBootstrapOwner(): Promise<void> {
+    const passwordHash = process.env.ADMIN_PASSWORD_HASH;
+    if (!passwordHash) return;
+
+    const existing = await db.get('SELECT id FROM admin_users LIMIT 1');
+    if (existing) return;
+
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    await db.run(
+        `INSERT INTO admin_users (username, "passwordHash", role) VALUES ($1, $2, 'owner') ON CONFLICT (username) DO NOTHING`,
+        [username, passwordHash]
+    );
+    console.log(`Bootstrapped owner admin account "${username}".`);
+}
+
+/**
+ * Checks a username/password pair against the admin_users table.
+ * @returns The matching admin, or null if the username is unknown or the password is wrong.
+ */
+export async function verifyAdminCredentials(username: string, password: string): Promise<AdminUser | null> {
+    const user: AdminUserRow | undefined = await db.get(
+        'SELECT id, username, "passwordHash", role FROM admin_users WHERE username = $1',
+        [username]
+    );
+    if (!user) {
+        await compareAdminPassword(password, DUMMY_PASSWORD_HASH);
+        return null;
+    }
+    if (!(await compareAdminPassword(password, user.passwordHash))) {
+        return null;
+    }
+    return { id: user.id, username: user.username, role: user.role };
+}
+
+/**
+ * Splits a cookie value of the form `<token>.<signature>` and checks the signature.
+ * @returns The raw token if the signature is valid, otherwise null.
+ */
+function verifySignedToken(cookieValue: string | undefined): string | null {
+    if (!cookieValue) return null;
+
+    const separatorIndex = cookieValue.lastIndexOf('.');
+    if (separatorIndex <= 0) return null;
+
+    const token = cookieValue.slice(0, separatorIndex);
+    const signature = Buffer.from(cookieValue.slice(separatorIndex + 1));
+    const expected = Buffer.from(signToken(token));
+
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+        return null;
+    }
+    return token;
+}
+
+/**
+ * Creates a new admin session row and returns the signed cookie value for it.
+ * The token itself is random and opaque; it carries no information about the admin.
+ */
+export async function createAdminSession(adminUserId: number): Promise<{ cookieValue: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_DURATION_HOURS * 60 * 60 * 1000);
+
+    await db.run(
+        'INSERT INTO admin_sessions ("adminUserId", "tokenHash", "expiresAt") VALUES ($1, $2, $3)',
+        [adminUserId, hashToken(token), expiresAt]
+    );
+
+    return { cookieValue: `${token}.${signToken(token)}`, expiresAt };
+}
+
+/**
+ * Looks up the admin behind the request's live (unexpired, unrevoked) session cookie.
+ * @returns The admin, or null if the cookie is missing, forged, expired or revoked.
+ */
+export async function getAdminSessionUser(req: NextApiRequest): Promise<AdminUser | null> {
+    const token = verifySignedToken(req.cookies[SESSION_COOKIE_NAME]);
+    if (!token) return null;
+
+    const user: AdminUser | undefined = await db.get(
+        `SELECT u.id, u.username, u.role
+         FROM admin_sessions s
+         JOIN admin_users u ON u.id = s."adminUserId"
+         WHERE s."tokenHash" = $1 AND s."revokedAt" IS NULL AND s."expiresAt" > NOW()`,
+        [hashToken(token)]
+    );
+    return user || null;
+}
+
+/**
+ * Marks the request's session as revoked so the cookie can no longer be used, even if it was copied.
+ */
+export async function revokeAdminSession(req: NextApiRequest): Promise<void> {
+    const token = verifySignedToken(req.cookies[SESSION_COOKIE_NAME]);
+    if (!token) return;
+
+    await db.run(
+        'UPDATE admin_sessions SET "revokedAt" = NOW() WHERE "tokenHash" = $1 AND "revokedAt" IS NULL',
+        [hashToken(token)]
+    );
+}
+
+/**
+ * Revokes every live session belonging to an admin, e.g. after a password or role change.
+ */
+export async function revokeAllSessionsForUser(adminUserId: number): Promise<void> {
+    await db.run(
+        'UPDATE admin_sessions SET "revokedAt" = NOW() WHERE "adminUserId" = $1 AND "revokedAt" IS NULL',
+        [adminUserId]
+    );
+}
+
+export function serializeSessionCookie(cookieValue: string, expiresAt: Date): string {
+    return serialize(SESSION_COOKIE_NAME, cookieValue, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV !== 'development',
+        sameSite: 'strict',
+        expires: expiresAt,
+        path: '/',
+    });
+}
+
+export function clearSessionCookie(): string {
+    return serialize(SESSION_COOKIE_NAME, '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV !== 'development',
+        sameSite: 'strict',
+        maxAge: 0, // Expires immediately
+        path: '/',
+    });
+}
+
+/**
+ * Checks for the shared secret used by scheduled jobs, sent either as `Authorization: Bearer <secret>`
+ * (the form Vercel Cron uses) or as an `x-dump-trigger-secret` header.
+ * Always false when `DUMP_TRIGGER_SECRET` is unset, so a missing secret never opens the endpoint.
+ */
+export function hasDumpTriggerSecret(req: NextApiRequest): boolean {
+    const secret = process.env.DUMP_TRIGGER_SECRET;
+    if (!secret) return false;
+
+    const authorization = req.headers.authorization;
+    const headerSecret = req.headers['x-dump-trigger-secret'];
+    const provided = authorization?.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : typeof headerSecret === 'string' ? headerSecret : '';
+
+    const expectedDigest = crypto.createHash('sha256').update(secret).digest();
+    const providedDigest = crypto.createHash('sha256').update(provided).digest();
+    return provided.length > 0 && crypto.timingSafeEqual(expectedDigest, providedDigest);
+}
+
 // Use NextApiRequest for the request object
-export function isAuthenticated(req: NextApiRequest): boolean {
-    // In a real application, you'd use a session management library like NextAuth.js
-    // For this example, we'll use a simple cookie-based check.
-    return req.cookies.admin_logged_in === 'true';
-}
\ No newline at end of file
+export async function isAuthenticated(req: NextApiRequest): Promise<AdminUser | null> {
+    try {
+        return await getAdminSessionUser(req);
+    } catch (error) {
+        console.error('Error checking admin session:', error);
+        return null;
+    }
+}
+
+/**
+ * Authenticates the request and checks the admin's role, responding with 401/403 itself on failure.
+ * @returns The acting admin, or null if a response has already been sent.
+ */
+export async function requireAdmin(req: NextApiRequest, res: NextApiResponse, minimumRole: AdminRole = 'viewer'): Promise<AdminUser | null> {
+    const admin = await isAuthenticated(req);
+    if (!admin) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return null;
+    }
+    if (!hasRole(admin, minimumRole)) {
+        res.status(403).json({ error: `Forbidden: this action requires the ${minimumRole} role.` });
+        return null;
+    }
+    return admin;
+}
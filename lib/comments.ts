@@ -0,0 +1,177 @@
+// lib/comments.ts
+import { db, Db, SignatureRow } from './db';
+import type { AdminUser } from './auth';
+import { recordAuditEvent } from './audit';
+
+// Long enough for a sentence or two, short enough to keep the public list readable
+export const COMMENT_MAX_LENGTH = 280;
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected';
+
+export const COMMENT_STATUSES: CommentStatus[] = ['pending', 'approved', 'rejected'];
+
+export type CommentDecision = 'approve' | 'reject';
+
+export function isCommentStatus(value: unknown): value is CommentStatus {
+    return typeof value === 'string' && (COMMENT_STATUSES as string[]).includes(value);
+}
+
+export function isCommentDecision(value: unknown): value is CommentDecision {
+    return value === 'approve' || value === 'reject';
+}
+
+export type CommentValidationResult =
+    | { ok: true; comment: string | null }
+    | { ok: false; error: string };
+
+// Control characters (other than whitespace, which is collapsed below) and invisible formatting characters
+// that could be used to hide text or break the layout of the public list
+const INVISIBLE_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+/**
+ * Cleans up a signer's comment: strips markup and invisible characters, collapses whitespace to single spaces,
+ * and checks the length and the letter's banned word list.
+ * React escapes whatever is rendered, so this is about keeping comments plain and readable, not about XSS.
+ * @returns The comment to store, null for an empty comment, or an error message suitable for a 400 response.
+ */
+export function sanitizeComment(raw: unknown, bannedWords: string[]): CommentValidationResult {
+    if (raw === undefined || raw === null) {
+        return { ok: true, comment: null };
+    }
+    if (typeof raw !== 'string') {
+        return { ok: false, error: 'comment must be a string.' };
+    }
+
+    const comment = raw
+        .normalize('NFC')
+        // Only things shaped like HTML tags, so comparisons such as "3 < 4 and 5 > 2" survive
+        .replace(/<\/?[a-z][^<>]*>/gi, '')
+        .replace(INVISIBLE_CHARACTERS, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    if (!comment) {
+        return { ok: true, comment: null };
+    }
+    if (comment.length > COMMENT_MAX_LENGTH) {
+        return { ok: false, error: `Comments can be at most ${COMMENT_MAX_LENGTH} characters long.` };
+    }
+    if (findBannedWord(comment, bannedWords)) {
+        return { ok: false, error: 'Your comment contains language that is not allowed on this letter. Please rephrase it.' };
+    }
+    return { ok: true, comment };
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the first banned word or phrase in `text`, matched case-insensitively on whole words,
+ * so banning "ass" does not block "class".
+ * @returns The banned entry that matched, or null.
+ */
+export function findBannedWord(text: string, bannedWords: string[]): string | null {
+    for (const word of bannedWords) {
+        const trimmed = word.trim();
+        if (!trimmed) continue;
+        const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?=$|[^\\p{L}\\p{N}])`, 'iu');
+        if (pattern.test(text)) return trimmed;
+    }
+    return null;
+}
+
+/**
+ * Turns a letter's banned word list, as typed into the dashboard (one entry per line or comma-separated),
+ * into a clean, de-duplicated list.
+ */
+export function parseBannedWords(value: string | string[]): string[] {
+    const entries = Array.isArray(value) ? value : value.split(/[\n,]/);
+    const seen = new Set<string>();
+    const words: string[] = [];
+    for (const entry of entries) {
+        const word = String(entry).replace(/\s+/g, ' ').trim();
+        if (word && !seen.has(word.toLowerCase())) {
+            seen.add(word.toLowerCase());
+            words.push(word);
+        }
+    }
+    return words;
+}
+
+export interface SignatureComment {
+    signatureId: number;
+    letterTitle: string;
+    nationName: string;
+    comment: string;
+    commentStatus: CommentStatus;
+    commentedAt: Date;
+    commentModeratedAt: Date | null;
+    commentModeratedBy: string | null;
+}
+
+const DEFAULT_COMMENT_LIMIT = 100;
+const MAX_COMMENT_LIMIT = 500;
+
+/**
+ * Lists comments on public signatures in the given moderation state: oldest first for the pending queue,
+ * newest first otherwise.
+ */
+export async function listComments(status: CommentStatus, limit?: number): Promise<SignatureComment[]> {
+    const order = status === 'pending' ? 'ASC' : 'DESC';
+    return db.all(
+        `SELECT s.id AS "signatureId", l.title AS "letterTitle", s."nationName", s.comment, s."commentStatus", s."commentedAt",
+                s."commentModeratedAt", s."commentModeratedBy"
+         FROM signatures s
+         JOIN letters l ON l.id = s."letterId"
+         WHERE s."commentStatus" = $1 AND s."revokedAt" IS NULL AND s."withdrawnAt" IS NULL
+         ORDER BY s."commentedAt" ${order}, s.id ${order}
+         LIMIT $2`,
+        [status, Math.min(Math.max(limit || DEFAULT_COMMENT_LIMIT, 1), MAX_COMMENT_LIMIT)]
+    );
+}
+
+export type CommentModerationResult =
+    | { ok: true; signature: SignatureRow }
+    | { ok: false; status: number; error: string };
+
+/**
+ * Approves or rejects the comment on one signature and records the decision in the audit log.
+ * Either decision can be reversed later. Must run inside `withTransaction`.
+ */
+export async function moderateComment(
+    tx: Db,
+    admin: AdminUser,
+    signatureId: number,
+    decision: CommentDecision,
+    reason: string | null
+): Promise<CommentModerationResult> {
+    const signature: SignatureRow | undefined = await tx.get('SELECT * FROM signatures WHERE id = $1 FOR UPDATE', [signatureId]);
+    if (!signature) {
+        return { ok: false, status: 404, error: `Signature ${signatureId} not found.` };
+    }
+    if (!signature.comment) {
+        return { ok: false, status: 409, error: `Signature ${signatureId} has no comment.` };
+    }
+    const newStatus: CommentStatus = decision === 'approve' ? 'approved' : 'rejected';
+    if (signature.commentStatus === newStatus) {
+        return { ok: false, status: 409, error: `The comment on signature ${signatureId} is already ${newStatus}.` };
+    }
+
+    const updated: SignatureRow = await tx.get(
+        `UPDATE signatures SET "commentStatus" = $1, "commentModeratedAt" = NOW(), "commentModeratedBy" = $2
+         WHERE id = $3 RETURNING *`,
+        [newStatus, admin.username, signatureId]
+    );
+
+    await recordAuditEvent(tx, {
+        actor: admin,
+        action: decision === 'approve' ? 'approve-comment' : 'reject-comment',
+        signatureId: signature.id,
+        nationName: signature.nationName,
+        snapshot: signature,
+        reason,
+    });
+
+    return { ok: true, signature: updated };
+}
@@ -1,52 +1,594 @@
 // lib/db.ts
-import { Pool, QueryResult, QueryResultRow } from 'pg';
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
+import { nationIdSql } from './nationId';
 
 export interface SignatureRow extends QueryResultRow {
     id: number;
+    letterId: number;
+    letterVersion: number | null; // The version of the letter's text signed, null if it had none yet
+    nationId: string;
     nationName: string;
     checksum: string;
     signedAt: Date;
+    revokedAt: Date | null;
+    revokedBy: string | null;
+    revocationReason: string | null;
+    resignAllowed: boolean;
+    withdrawnAt: Date | null; // Set when the signer withdrew it themselves; hidden from the public list like a revocation
+    comment: string | null; // The signer's optional public statement, shown only once approved
+    commentStatus: 'pending' | 'approved' | 'rejected' | null;
+    commentedAt: Date | null;
+    commentModeratedAt: Date | null;
+    commentModeratedBy: string | null;
 }
 
 export interface NationCacheRow extends QueryResultRow {
+    nationId: string;
     nationName: string;
     flagUrl: string;
     region: string;
+    fullName: string | null;
+    category: string | null;
+    waStatus: string | null; // As the dump spells it: 'WA Member', 'WA Delegate' or 'Non-member'
+    endorsementCount: number | null;
+    population: number | null; // In millions, as NationStates reports it
+    influence: string | null;
+    firstLoginAt: Date | null;
+    foundedAt: Date | null;
+    ceasedAt: Date | null; // When an import first found the nation missing from the dump
     lastUpdated: Date;
 }
 
-const connectionString = process.env.POSTGRES_URL;
+export interface RegionCacheRow extends QueryResultRow {
+    regionId: string;
+    regionName: string;
+    delegateId: string | null;
+    founderId: string | null;
+    nationCount: number | null;
+    flagUrl: string;
+    delegateEndorsements: number | null;
+    lastUpdated: Date;
+}
+
+export type NationChangeField = 'region' | 'flagUrl';
+
+export interface NationCacheChangeRow extends QueryResultRow {
+    id: number;
+    runId: number | null;
+    nationId: string;
+    field: NationChangeField;
+    oldValue: string | null;
+    newValue: string | null;
+    recordedAt: Date;
+}
+
+export type LetterStatus = 'draft' | 'open' | 'closed';
+
+export interface LetterRow extends QueryResultRow {
+    id: number;
+    slug: string; // Public address of the letter: /letters/<slug>
+    title: string;
+    subtitle: string | null;
+    embedUrl: string | null; // A published document shown above the signatures until the letter has text of its own
+    countCeasedSigners: boolean;
+    bannedCommentWords: string[];
+    status: LetterStatus;
+    openAt: Date | null; // Signing opens at this time; null opens it as soon as the letter is open
+    closeAt: Date | null; // Signing ends at this time; always set, and in the past, once the letter is closed
+    createdAt: Date;
+    createdBy: string | null;
+    updatedAt: Date;
+    updatedBy: string | null;
+}
+
+export interface LetterVersionRow extends QueryResultRow {
+    id: number;
+    letterId: number;
+    version: number; // Counts up from 1 for each letter
+    body: string; // Markdown
+    createdAt: Date;
+    createdBy: string | null;
+}
+
+export interface AuditLogRow extends QueryResultRow {
+    id: number;
+    actorId: number | null;
+    actorUsername: string;
+    action: string;
+    signatureId: number | null;
+    nationName: string | null;
+    snapshot: Record<string, unknown> | null;
+    reason: string | null;
+    createdAt: Date;
+}
+
+export interface DumpImportStatusRow extends QueryResultRow {
+    id: number;
+    running: boolean;
+    phase: string | null;
+    bytesDownloaded: number;
+    totalBytes: number | null;
+    nationsProcessed: number;
+    startedAt: Date | null;
+    heartbeatAt: Date | null;
+    finishedAt: Date | null;
+    startedBy: string | null;
+    lastSuccess: boolean | null;
+    lastMessage: string | null;
+}
+
+// 'partial' is a successful run limited to the first nations of the dump, which says nothing about the dump's size or the cache's age
+export type DumpRunStatus = 'running' | 'succeeded' | 'partial' | 'failed' | 'abandoned';
 
-if (!connectionString) {
-    throw new Error('DATABASE_CONNECTION_ERROR: POSTGRES_URL environment variable is not set. Cannot connect to the database. Please ensure it is configured for "Build and Runtime" on Vercel.');
+export interface DumpRunRow extends QueryResultRow {
+    id: number;
+    startedAt: Date;
+    finishedAt: Date | null;
+    startedBy: string;
+    status: DumpRunStatus;
+    bytesDownloaded: number;
+    nationsProcessed: number;
+    regionsProcessed: number | null;
+    durationMs: number | null;
+    message: string | null;
+    error: string | null;
 }
 
-const pool = new Pool({
-    connectionString: connectionString,
-    ssl: {
-        rejectUnauthorized: false,
-    },
-});
+export interface LoginLockoutEventRow extends QueryResultRow {
+    id: number;
+    kind: 'account' | 'ip';
+    key: string;
+    failures: number;
+    lockedUntil: Date;
+    ipAddress: string | null;
+    createdAt: Date;
+}
 
-export async function initializeDatabase() {
+export type AdminRole = 'viewer' | 'moderator' | 'owner';
+
+export interface AdminUserRow extends QueryResultRow {
+    id: number;
+    username: string;
+    passwordHash: string;
+    role: AdminRole;
+    createdAt: Date;
+}
+
+export interface AdminSessionRow extends QueryResultRow {
+    id: number;
+    adminUserId: number;
+    tokenHash: string;
+    createdAt: Date;
+    expiresAt: Date;
+    revokedAt: Date | null;
+}
+
+// The letter this site was built for, which was hard-coded into the home page before letters were stored
+const ORIGINAL_LETTER = {
+    slug: 'on-separatist-peoples',
+    title: 'On Separatist Peoples',
+    subtitle: 'An Open Letter to Site Staff',
+    embedUrl: 'https://docs.google.com/document/d/e/2PACX-1vQ-QkQswHsv3OGbX21qYsQ49t1VbLcHiPRzZA_CWvODPCDwmkP8XHEqvt2Tq2NlXhsD_UTjlYN9tf1X/pub?embedded=true',
+};
+
+let sharedPool: Pool | null = null;
+
+/**
+ * The connection pool, created on first use so that code which never queries (such as a dry-run dump import)
+ * can load this module without a database configured.
+ */
+function getPool(): Pool {
+    if (!sharedPool) {
+        const connectionString = process.env.POSTGRES_URL;
+        if (!connectionString) {
+            throw new Error('DATABASE_CONNECTION_ERROR: POSTGRES_URL environment variable is not set. Cannot connect to the database. Please ensure it is configured for "Build and Runtime" on Vercel.');
+        }
+        sharedPool = new Pool({
+            connectionString: connectionString,
+            // Hosted Postgres needs SSL; a local database (e.g. for the end-to-end tests) usually has none
+            ssl: process.env.POSTGRES_SSL === 'disable' ? false : {
+                rejectUnauthorized: false,
+            },
+        });
+    }
+    return sharedPool;
+}
+
+let initialization: Promise<void> | null = null;
+
+/**
+ * Creates and migrates the schema. Runs once per process; later calls share the first call's result,
+ * and a failed attempt is retried by the next call.
+ */
+export function initializeDatabase(): Promise<void> {
+    if (!initialization) {
+        initialization = migrateSchema().catch((error) => {
+            initialization = null;
+            throw error;
+        });
+    }
+    return initialization;
+}
+
+/**
+ * Brings the schema up to date in one transaction, holding an advisory lock so that instances starting together
+ * wait for each other instead of running the same DDL concurrently.
+ */
+async function migrateSchema(): Promise<void> {
     try {
-        await pool.query(`
-            CREATE TABLE IF NOT EXISTS signatures (
-                                                      id SERIAL PRIMARY KEY,
-                                                      "nationName" TEXT NOT NULL UNIQUE,
-                                                      checksum TEXT NOT NULL,
-                                                      "signedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
-                );
-        `);
-
-        await pool.query(`
-            CREATE TABLE IF NOT EXISTS nation_cache (
-                                                        "nationName" TEXT PRIMARY KEY,
-                                                        "flagUrl" TEXT NOT NULL,
-                                                        region TEXT NOT NULL,
-                                                        "lastUpdated" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
-                );
-        `);
+        await withTransaction(async (tx) => {
+            await tx.run(`SELECT pg_advisory_xact_lock(hashtext('initialize_database'))`);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS signatures (
+                                                          id SERIAL PRIMARY KEY,
+                                                          "nationId" TEXT,
+                                                          "nationName" TEXT NOT NULL,
+                                                          checksum TEXT NOT NULL,
+                                                          "signedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            // Soft-delete columns: a revoked signature keeps its row but is hidden from the public list
+            await tx.run(`
+                ALTER TABLE signatures
+                    ADD COLUMN IF NOT EXISTS "revokedAt" TIMESTAMP WITH TIME ZONE,
+                    ADD COLUMN IF NOT EXISTS "revokedBy" TEXT,
+                    ADD COLUMN IF NOT EXISTS "revocationReason" TEXT,
+                    ADD COLUMN IF NOT EXISTS "resignAllowed" BOOLEAN NOT NULL DEFAULT FALSE;
+            `);
+
+            // Signers can withdraw their own signature; the row stays so its history is kept
+            await tx.run(`
+                ALTER TABLE signatures ADD COLUMN IF NOT EXISTS "withdrawnAt" TIMESTAMP WITH TIME ZONE;
+            `);
+
+            // Optional public comment, held for moderator approval before it is shown
+            await tx.run(`
+                ALTER TABLE signatures
+                    ADD COLUMN IF NOT EXISTS comment TEXT,
+                    ADD COLUMN IF NOT EXISTS "commentStatus" TEXT CHECK ("commentStatus" IN ('pending', 'approved', 'rejected')),
+                    ADD COLUMN IF NOT EXISTS "commentedAt" TIMESTAMP WITH TIME ZONE,
+                    ADD COLUMN IF NOT EXISTS "commentModeratedAt" TIMESTAMP WITH TIME ZONE,
+                    ADD COLUMN IF NOT EXISTS "commentModeratedBy" TEXT;
+                CREATE INDEX IF NOT EXISTS signatures_pending_comments_idx ON signatures ("commentedAt") WHERE "commentStatus" = 'pending';
+            `);
+
+            // Supports the admin list's keyset pagination on its default sort
+            await tx.run(`
+                CREATE INDEX IF NOT EXISTS signatures_signed_at_id_idx ON signatures ("signedAt", id);
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS nation_cache (
+                                                            "nationId" TEXT PRIMARY KEY,
+                                                            "nationName" TEXT NOT NULL,
+                                                            "flagUrl" TEXT NOT NULL,
+                                                            region TEXT NOT NULL,
+                                                            "lastUpdated" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            // Metadata beyond flag and region, filled in by the next dump import
+            await tx.run(`
+                ALTER TABLE nation_cache
+                    ADD COLUMN IF NOT EXISTS "fullName" TEXT,
+                    ADD COLUMN IF NOT EXISTS category TEXT,
+                    ADD COLUMN IF NOT EXISTS "waStatus" TEXT,
+                    ADD COLUMN IF NOT EXISTS "endorsementCount" INTEGER,
+                    ADD COLUMN IF NOT EXISTS population INTEGER,
+                    ADD COLUMN IF NOT EXISTS influence TEXT,
+                    ADD COLUMN IF NOT EXISTS "firstLoginAt" TIMESTAMP WITH TIME ZONE,
+                    ADD COLUMN IF NOT EXISTS "foundedAt" TIMESTAMP WITH TIME ZONE,
+                    ADD COLUMN IF NOT EXISTS "ceasedAt" TIMESTAMP WITH TIME ZONE;
+            `);
+
+            // Keyed like nation IDs; join from nation_cache with nationIdSql('nc.region')
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS region_cache (
+                                                            "regionId" TEXT PRIMARY KEY,
+                                                            "regionName" TEXT NOT NULL,
+                                                            "delegateId" TEXT,
+                                                            "founderId" TEXT,
+                                                            "nationCount" INTEGER,
+                                                            "flagUrl" TEXT NOT NULL DEFAULT '',
+                                                            "delegateEndorsements" INTEGER,
+                                                            "lastUpdated" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS admin_users (
+                                                           id SERIAL PRIMARY KEY,
+                                                           username TEXT NOT NULL UNIQUE,
+                                                           "passwordHash" TEXT NOT NULL,
+                                                           role TEXT NOT NULL CHECK (role IN ('viewer', 'moderator', 'owner')),
+                                                           "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS admin_sessions (
+                                                              id SERIAL PRIMARY KEY,
+                                                              "adminUserId" INTEGER REFERENCES admin_users(id) ON DELETE CASCADE,
+                                                              "tokenHash" TEXT NOT NULL UNIQUE,
+                                                              "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                              "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+                                                              "revokedAt" TIMESTAMP WITH TIME ZONE
+                    );
+            `);
+
+            // Sessions created before admin accounts existed have no user and are simply never matched again
+            await tx.run(`
+                ALTER TABLE admin_sessions ADD COLUMN IF NOT EXISTS "adminUserId" INTEGER REFERENCES admin_users(id) ON DELETE CASCADE;
+            `);
+
+            // Sliding-window log of NationStates API requests, shared by every instance, plus any block the API imposed
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS ns_api_requests (
+                                                               id BIGSERIAL PRIMARY KEY,
+                                                               "sentAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                               priority TEXT NOT NULL
+                    );
+                CREATE INDEX IF NOT EXISTS ns_api_requests_sent_at_idx ON ns_api_requests ("sentAt");
+                CREATE TABLE IF NOT EXISTS ns_api_rate_state (
+                                                                 id INTEGER PRIMARY KEY CHECK (id = 1),
+                                                                 "blockedUntil" TIMESTAMP WITH TIME ZONE
+                    );
+                INSERT INTO ns_api_rate_state (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+            `);
+
+            // Settings of the one letter this site hosted before it could host several; now only read to seed the first letter
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS letter_settings (
+                                                               id INTEGER PRIMARY KEY CHECK (id = 1),
+                                                               "countCeasedSigners" BOOLEAN NOT NULL DEFAULT TRUE,
+                                                               "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                               "updatedBy" TEXT
+                    );
+                INSERT INTO letter_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+                ALTER TABLE letter_settings ADD COLUMN IF NOT EXISTS "bannedCommentWords" TEXT[] NOT NULL DEFAULT '{}';
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS letters (
+                                                       id SERIAL PRIMARY KEY,
+                                                       slug TEXT NOT NULL UNIQUE,
+                                                       title TEXT NOT NULL,
+                                                       subtitle TEXT,
+                                                       "embedUrl" TEXT,
+                                                       "countCeasedSigners" BOOLEAN NOT NULL DEFAULT TRUE,
+                                                       "bannedCommentWords" TEXT[] NOT NULL DEFAULT '{}',
+                                                       "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                       "createdBy" TEXT,
+                                                       "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                       "updatedBy" TEXT
+                    );
+            `);
+
+            // The original letter becomes the first row, keeping the settings it already had
+            await tx.run(
+                `INSERT INTO letters (slug, title, subtitle, "embedUrl", "countCeasedSigners", "bannedCommentWords", "updatedAt", "updatedBy")
+                 SELECT $1, $2, $3, $4, ls."countCeasedSigners", ls."bannedCommentWords", ls."updatedAt", ls."updatedBy"
+                 FROM letter_settings ls
+                 WHERE ls.id = 1 AND NOT EXISTS (SELECT 1 FROM letters)
+                 ON CONFLICT (slug) DO NOTHING`,
+                [ORIGINAL_LETTER.slug, ORIGINAL_LETTER.title, ORIGINAL_LETTER.subtitle, ORIGINAL_LETTER.embedUrl]
+            );
+
+            // Signatures from before there were several letters all belong to the original one.
+            // Skipped once the column is NOT NULL, since each run locks and scans the whole table.
+            const letterIdColumn = await tx.get(
+                `SELECT is_nullable FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'signatures' AND column_name = 'letterId'`
+            );
+            if (letterIdColumn?.is_nullable !== 'NO') {
+                await tx.run(`
+                    ALTER TABLE signatures ADD COLUMN IF NOT EXISTS "letterId" INTEGER REFERENCES letters(id);
+                    UPDATE signatures SET "letterId" = (SELECT MIN(id) FROM letters) WHERE "letterId" IS NULL;
+                    ALTER TABLE signatures ALTER COLUMN "letterId" SET NOT NULL;
+                `);
+            }
+
+            // Existing letters stay open; drafts are hidden from the public until an owner opens them
+            await tx.run(`
+                ALTER TABLE letters ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('draft', 'open', 'closed'));
+                ALTER TABLE letters ADD COLUMN IF NOT EXISTS "openAt" TIMESTAMP WITH TIME ZONE;
+                ALTER TABLE letters ADD COLUMN IF NOT EXISTS "closeAt" TIMESTAMP WITH TIME ZONE;
+            `);
+
+            // Every published text of each letter, in Markdown; rows are never changed, so signers can see what they signed
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS letter_versions (
+                                                               id SERIAL PRIMARY KEY,
+                                                               "letterId" INTEGER NOT NULL REFERENCES letters(id),
+                                                               version INTEGER NOT NULL,
+                                                               body TEXT NOT NULL,
+                                                               "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                               "createdBy" TEXT,
+                                                               UNIQUE ("letterId", version)
+                    );
+                ALTER TABLE signatures ADD COLUMN IF NOT EXISTS "letterVersion" INTEGER;
+            `);
+
+            if (!await tx.get(`SELECT 1 FROM pg_proc WHERE proname = 'prevent_letter_version_mutation'`)) {
+                await tx.run(`
+                    CREATE FUNCTION prevent_letter_version_mutation() RETURNS trigger AS $$
+                    BEGIN
+                        RAISE EXCEPTION 'letter_versions is append-only';
+                    END;
+                    $$ LANGUAGE plpgsql;
+                `);
+            }
+
+            await tx.run(`
+                DO $$
+                BEGIN
+                    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'letter_versions_append_only') THEN
+                        CREATE TRIGGER letter_versions_append_only
+                            BEFORE UPDATE OR DELETE ON letter_versions
+                            FOR EACH ROW EXECUTE FUNCTION prevent_letter_version_mutation();
+                    END IF;
+                END
+                $$;
+            `);
+
+            // Single-use site tokens for the NationStates verify page, one per sign attempt, counted per requesting address
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS verification_tokens (
+                                                                   id SERIAL PRIMARY KEY,
+                                                                   "nationId" TEXT NOT NULL,
+                                                                   nonce TEXT NOT NULL,
+                                                                   "tokenHash" TEXT NOT NULL UNIQUE,
+                                                                   "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                                   "expiresAt" TIMESTAMP WITH TIME ZONE NOT NULL,
+                                                                   "usedAt" TIMESTAMP WITH TIME ZONE
+                    );
+                ALTER TABLE verification_tokens ADD COLUMN IF NOT EXISTS "ipAddress" TEXT;
+                CREATE INDEX IF NOT EXISTS verification_tokens_ip_created_idx ON verification_tokens ("ipAddress", "createdAt");
+            `);
+
+            // Failed admin logins per account (lowercased username) and per IP, for backoff and lockout
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS login_attempts (
+                                                              kind TEXT NOT NULL CHECK (kind IN ('account', 'ip')),
+                                                              key TEXT NOT NULL,
+                                                              failures INTEGER NOT NULL DEFAULT 0,
+                                                              "lastFailureAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                              "lockedUntil" TIMESTAMP WITH TIME ZONE,
+                                                              PRIMARY KEY (kind, key)
+                    );
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS login_lockout_events (
+                                                                    id SERIAL PRIMARY KEY,
+                                                                    kind TEXT NOT NULL,
+                                                                    key TEXT NOT NULL,
+                                                                    failures INTEGER NOT NULL,
+                                                                    "lockedUntil" TIMESTAMP WITH TIME ZONE NOT NULL,
+                                                                    "ipAddress" TEXT,
+                                                                    "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            // Single row acting as a cross-instance lock and live progress record for the nations dump import
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS dump_import_status (
+                                                                  id INTEGER PRIMARY KEY CHECK (id = 1),
+                                                                  running BOOLEAN NOT NULL DEFAULT FALSE,
+                                                                  phase TEXT,
+                                                                  "bytesDownloaded" BIGINT NOT NULL DEFAULT 0,
+                                                                  "totalBytes" BIGINT,
+                                                                  "nationsProcessed" INTEGER NOT NULL DEFAULT 0,
+                                                                  "startedAt" TIMESTAMP WITH TIME ZONE,
+                                                                  "heartbeatAt" TIMESTAMP WITH TIME ZONE,
+                                                                  "finishedAt" TIMESTAMP WITH TIME ZONE,
+                                                                  "startedBy" TEXT,
+                                                                  "lastSuccess" BOOLEAN,
+                                                                  "lastMessage" TEXT
+                    );
+                INSERT INTO dump_import_status (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+            `);
+
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS dump_runs (
+                                                         id SERIAL PRIMARY KEY,
+                                                         "startedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                                                         "finishedAt" TIMESTAMP WITH TIME ZONE,
+                                                         "startedBy" TEXT NOT NULL,
+                                                         status TEXT NOT NULL CHECK (status IN ('running', 'succeeded', 'partial', 'failed', 'abandoned')),
+                                                         "bytesDownloaded" BIGINT NOT NULL DEFAULT 0,
+                                                         "nationsProcessed" INTEGER NOT NULL DEFAULT 0,
+                                                         message TEXT,
+                                                         error TEXT
+                    );
+                ALTER TABLE dump_runs ADD COLUMN IF NOT EXISTS "regionsProcessed" INTEGER;
+            `);
+
+            // Tables created before limited imports existed have a status check without 'partial'
+            const statusCheck = await tx.get(
+                `SELECT pg_get_constraintdef(oid) AS definition FROM pg_constraint WHERE conrelid = 'dump_runs'::regclass AND conname = 'dump_runs_status_check'`
+            );
+            if (!statusCheck?.definition.includes(`'partial'`)) {
+                await tx.run(`
+                    ALTER TABLE dump_runs DROP CONSTRAINT IF EXISTS dump_runs_status_check;
+                    ALTER TABLE dump_runs ADD CONSTRAINT dump_runs_status_check CHECK (status IN ('running', 'succeeded', 'partial', 'failed', 'abandoned'));
+                `);
+            }
+
+            // Each nations dump is parsed into here, then swapped into nation_cache in one transaction once it has been validated.
+            // Unlogged: it is rebuilt from the dump on every import, so its contents need not survive a crash.
+            await tx.run(`
+                CREATE UNLOGGED TABLE IF NOT EXISTS nation_cache_staging (
+                                                                     "nationId" TEXT PRIMARY KEY,
+                                                                     "nationName" TEXT NOT NULL,
+                                                                     "flagUrl" TEXT NOT NULL,
+                                                                     region TEXT NOT NULL,
+                                                                     "fullName" TEXT,
+                                                                     category TEXT,
+                                                                     "waStatus" TEXT,
+                                                                     "endorsementCount" INTEGER,
+                                                                     population INTEGER,
+                                                                     influence TEXT,
+                                                                     "firstLoginAt" TIMESTAMP WITH TIME ZONE,
+                                                                     "foundedAt" TIMESTAMP WITH TIME ZONE
+                    );
+            `);
+
+            // Region moves and flag changes each import found, pruned after a while by the import itself
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS nation_cache_changes (
+                                                                    id BIGSERIAL PRIMARY KEY,
+                                                                    "runId" INTEGER REFERENCES dump_runs(id) ON DELETE SET NULL,
+                                                                    "nationId" TEXT NOT NULL,
+                                                                    field TEXT NOT NULL CHECK (field IN ('region', 'flagUrl')),
+                                                                    "oldValue" TEXT,
+                                                                    "newValue" TEXT,
+                                                                    "recordedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+                CREATE INDEX IF NOT EXISTS nation_cache_changes_nation_idx ON nation_cache_changes ("nationId", "recordedAt");
+            `);
+
+            // Append-only: actor details are copied rather than referenced so removing an admin never rewrites history
+            await tx.run(`
+                CREATE TABLE IF NOT EXISTS signature_audit_log (
+                                                                   id SERIAL PRIMARY KEY,
+                                                                   "actorId" INTEGER,
+                                                                   "actorUsername" TEXT NOT NULL,
+                                                                   action TEXT NOT NULL,
+                                                                   "signatureId" INTEGER,
+                                                                   "nationName" TEXT,
+                                                                   snapshot JSONB,
+                                                                   reason TEXT,
+                                                                   "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+            `);
+
+            if (!await tx.get(`SELECT 1 FROM pg_proc WHERE proname = 'prevent_audit_log_mutation'`)) {
+                await tx.run(`
+                    CREATE FUNCTION prevent_audit_log_mutation() RETURNS trigger AS $$
+                    BEGIN
+                        RAISE EXCEPTION 'signature_audit_log is append-only';
+                    END;
+                    $$ LANGUAGE plpgsql;
+                `);
+            }
+
+            await tx.run(`
+                DO $$
+                BEGIN
+                    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'signature_audit_log_append_only') THEN
+                        CREATE TRIGGER signature_audit_log_append_only
+                            BEFORE UPDATE OR DELETE ON signature_audit_log
+                            FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_mutation();
+                    END IF;
+                END
+                $$;
+            `);
+
+            // Runs last because merging duplicate signatures writes to the audit log
+            await migrateToNationIds(tx);
+        });
 
         console.log('Database initialized successfully or tables already exist.');
     } catch (error) {
@@ -55,28 +597,159 @@ export async function initializeDatabase() {
     }
 }
 
+// Names with leading or trailing whitespace, which older versions stored as typed
+const TRIMMABLE_PATTERN = `'^\\s|\\s$'`;
+
+function trimSql(expression: string): string {
+    return `REGEXP_REPLACE(${expression}, '^\\s+|\\s+$', '', 'g')`;
+}
+
+/**
+ * Moves signatures and nation_cache from raw nation names to canonical nation IDs (see `lib/nationId.ts`),
+ * trimming the whitespace the names were stored with.
+ * Signatures that turn out to belong to the same nation on the same letter are merged into one, keeping the active row,
+ * then the most recent, and each removed duplicate is recorded in the audit log.
+ * Skipped once both tables are keyed by nation ID and every signer's name is trimmed, since it scans and locks both tables.
+ */
+async function migrateToNationIds(tx: Db): Promise<void> {
+    const migrated = await tx.get(
+        `SELECT EXISTS (
+                    SELECT 1 FROM information_schema.columns
+                    WHERE table_schema = current_schema() AND table_name = 'signatures' AND column_name = 'nationId' AND is_nullable = 'NO'
+                )
+                AND EXISTS (
+                    SELECT 1 FROM information_schema.key_column_usage
+                    WHERE table_schema = current_schema() AND table_name = 'nation_cache' AND constraint_name = 'nation_cache_pkey' AND column_name = 'nationId'
+                )
+                AND NOT EXISTS (SELECT 1 FROM signatures WHERE "nationName" ~ ${TRIMMABLE_PATTERN}) AS done`
+    );
+    if (migrated.done) return;
+
+    await tx.run(`
+        ALTER TABLE signatures ADD COLUMN IF NOT EXISTS "nationId" TEXT;
+        ALTER TABLE nation_cache ADD COLUMN IF NOT EXISTS "nationId" TEXT;
+    `);
+
+    await tx.run(`UPDATE signatures SET "nationId" = ${nationIdSql('"nationName"')} WHERE "nationId" IS NULL`);
+    await tx.run(`UPDATE signatures SET "nationName" = ${trimSql('"nationName"')} WHERE "nationName" ~ ${TRIMMABLE_PATTERN}`);
+
+    await tx.run(`
+        CREATE TEMPORARY TABLE duplicate_signatures ON COMMIT DROP AS
+        SELECT id, "keptId"
+        FROM (
+            SELECT id,
+                   ROW_NUMBER() OVER nation AS position,
+                   FIRST_VALUE(id) OVER nation AS "keptId"
+            FROM signatures
+            WINDOW nation AS (PARTITION BY "letterId", "nationId" ORDER BY ("revokedAt" IS NULL) DESC, "signedAt" DESC, id)
+        ) ranked
+        WHERE position > 1
+    `);
+    await tx.run(`
+        INSERT INTO signature_audit_log ("actorId", "actorUsername", action, "signatureId", "nationName", snapshot, reason)
+        SELECT NULL, 'system', 'merge', s.id, s."nationName", to_jsonb(s), 'Merged into signature #' || d."keptId"
+        FROM signatures s
+        JOIN duplicate_signatures d ON d.id = s.id
+    `);
+    await tx.run('DELETE FROM signatures WHERE id IN (SELECT id FROM duplicate_signatures)');
+
+    // One signature per nation on each letter; the older index on nationId alone predates multiple letters
+    await tx.run(`
+        ALTER TABLE signatures DROP CONSTRAINT IF EXISTS "signatures_nationName_key";
+        ALTER TABLE signatures ALTER COLUMN "nationId" SET NOT NULL;
+        DROP INDEX IF EXISTS signatures_nation_id_key;
+        CREATE UNIQUE INDEX IF NOT EXISTS signatures_letter_nation_id_key ON signatures ("letterId", "nationId");
+    `);
+
+    // The cache is rebuilt by every dump import, so older duplicates are simply dropped
+    await tx.run(`UPDATE nation_cache SET "nationId" = ${nationIdSql('"nationName"')} WHERE "nationId" IS NULL`);
+    await tx.run(`UPDATE nation_cache SET "nationName" = ${trimSql('"nationName"')} WHERE "nationName" ~ ${TRIMMABLE_PATTERN}`);
+    await tx.run(`
+        DELETE FROM nation_cache
+        WHERE ctid IN (
+            SELECT ctid
+            FROM (
+                SELECT ctid, ROW_NUMBER() OVER (PARTITION BY "nationId" ORDER BY "lastUpdated" DESC) AS position
+                FROM nation_cache
+            ) ranked
+            WHERE position > 1
+        )
+    `);
+    await tx.run(`
+        DO $$
+        BEGIN
+            IF NOT EXISTS (
+                SELECT 1 FROM information_schema.key_column_usage
+                WHERE table_name = 'nation_cache' AND constraint_name = 'nation_cache_pkey' AND column_name = 'nationId'
+            ) THEN
+                ALTER TABLE nation_cache DROP CONSTRAINT nation_cache_pkey;
+                ALTER TABLE nation_cache ADD PRIMARY KEY ("nationId");
+            END IF;
+        END
+        $$;
+    `);
+}
+
 // Define a more flexible type for query parameters
-type QueryParam = string | number | boolean | Date | null | (string | number | boolean | Date | null)[]; // Allow arrays as elements
+export type QueryParam = string | number | boolean | Date | null | (string | number | boolean | Date | null)[]; // Allow arrays as elements
 
-export async function query<T extends QueryResultRow>(text: string, params?: QueryParam[]): Promise<QueryResult<T>> { // <--- Changed params type here
+export async function query<T extends QueryResultRow>(text: string, params?: QueryParam[], client: Pool | PoolClient = getPool()): Promise<QueryResult<T>> { // <--- Changed params type here
     try {
-        return await pool.query<T>(text, params);
+        return await client.query<T>(text, params);
     } catch (error) {
         console.error('Error executing database query:', text, params, error);
         throw new Error(`DATABASE_QUERY_ERROR: Failed to execute query: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
-export const db = {
-    get: async (sql: string, params?: QueryParam[]): Promise<any | undefined> => { // <--- Changed params type here
-        const result = await query<any>(sql, params);
-        return result.rows[0];
-    },
-    all: async (sql: string, params?: QueryParam[]): Promise<any[]> => { // <--- Changed params type here
-        const result = await query<any>(sql, params);
-        return result.rows;
-    },
-    run: async (sql: string, params?: QueryParam[]): Promise<void> => { // <--- Changed params type here
-        await query(sql, params);
-    },
-};
\ No newline at end of file
+// `getClient` is called per query, so the shared helpers only create the pool once they are used
+function createDbHelpers(getClient: () => Pool | PoolClient) {
+    return {
+        get: async (sql: string, params?: QueryParam[]): Promise<any | undefined> => { // <--- Changed params type here
+            const result = await query<any>(sql, params, getClient());
+            return result.rows[0];
+        },
+        all: async (sql: string, params?: QueryParam[]): Promise<any[]> => { // <--- Changed params type here
+            const result = await query<any>(sql, params, getClient());
+            return result.rows;
+        },
+        run: async (sql: string, params?: QueryParam[]): Promise<void> => { // <--- Changed params type here
+            await query(sql, params, getClient());
+        },
+    };
+}
+
+export type Db = ReturnType<typeof createDbHelpers>;
+
+export const db: Db = createDbHelpers(getPool);
+
+/**
+ * Runs `work` inside a single transaction on a dedicated connection.
+ * Commits if `work` resolves, rolls back and rethrows if it rejects.
+ * @param work Receives a `db`-shaped helper bound to the transaction's connection.
+ */
+export async function withTransaction<T>(work: (tx: Db) => Promise<T>): Promise<T> {
+    const client = await getPool().connect();
+    try {
+        await client.query('BEGIN');
+        const result = await work(createDbHelpers(() => client));
+        await client.query('COMMIT');
+        return result;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Closes every pooled connection, so short-lived processes such as scripts and tests can exit.
+ */
+export async function closeDatabase(): Promise<void> {
+    if (sharedPool) {
+        await sharedPool.end();
+        sharedPool = null;
+        initialization = null;
+    }
+}
@@ -0,0 +1,190 @@
+// lib/dumpStatus.ts
+import { db, DumpImportStatusRow, DumpRunRow } from './db';
+import { CACHE_DURATION_HOURS, DumpProgress, DumpResult, processDailyNationDump, processDailyRegionDump } from './nsApi';
+
+// A run whose heartbeat is older than this is assumed to have died with its instance
+const STALE_IMPORT_MINUTES = 15;
+// Progress is written at most this often; the dashboard polls at a similar rate
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+export type DumpImportResult =
+    | { started: false; status: DumpImportStatusRow }
+    | ({ started: true; runId: number } & DumpResult);
+
+export interface NationDumpImportOptions {
+    // A local file or URL to import instead of the live nations dump
+    nationsSource?: string;
+    // A local file or URL for the regions dump; null skips the regions import
+    regionsSource?: string | null;
+    // Import only the first this many nations, see `ProcessDumpOptions.limit`
+    limit?: number;
+    // Called with every progress update, not just the ones written to dump_import_status
+    onProgress?: (progress: DumpProgress) => void;
+}
+
+export interface CacheFreshness {
+    lastUpdated: Date | null;
+    stale: boolean;
+    maxAgeHours: number;
+}
+
+export async function getDumpImportStatus(): Promise<DumpImportStatusRow | undefined> {
+    // pg returns BIGINT as a string; byte counts comfortably fit in a double
+    return db.get(
+        `SELECT id, running, phase, "bytesDownloaded"::float8 AS "bytesDownloaded", "totalBytes"::float8 AS "totalBytes",
+                "nationsProcessed", "startedAt", "heartbeatAt", "finishedAt", "startedBy", "lastSuccess", "lastMessage"
+         FROM dump_import_status WHERE id = 1`
+    );
+}
+
+/**
+ * Atomically claims the import lock. Succeeds if no import is running, or the running one has gone stale.
+ * @returns true if this caller now owns the import.
+ */
+async function claimDumpImport(startedBy: string): Promise<boolean> {
+    const claimed = await db.get(
+        `UPDATE dump_import_status
+         SET running = TRUE, phase = 'starting', "bytesDownloaded" = 0, "totalBytes" = NULL, "nationsProcessed" = 0,
+             "startedAt" = NOW(), "heartbeatAt" = NOW(), "finishedAt" = NULL, "startedBy" = $1
+         WHERE id = 1 AND (running = FALSE OR "heartbeatAt" < NOW() - ($2 || ' minutes')::interval)
+         RETURNING id`,
+        [startedBy, String(STALE_IMPORT_MINUTES)]
+    );
+    return Boolean(claimed);
+}
+
+async function writeDumpProgress(progress: DumpProgress): Promise<void> {
+    await db.run(
+        `UPDATE dump_import_status
+         SET phase = $1, "bytesDownloaded" = $2, "totalBytes" = $3, "nationsProcessed" = $4, "heartbeatAt" = NOW()
+         WHERE id = 1`,
+        [progress.phase, progress.bytesDownloaded, progress.totalBytes, progress.nationsProcessed]
+    );
+}
+
+async function releaseDumpImport(success: boolean, message: string, nationsProcessed: number | undefined): Promise<void> {
+    await db.run(
+        `UPDATE dump_import_status
+         SET running = FALSE, phase = NULL, "finishedAt" = NOW(), "heartbeatAt" = NOW(),
+             "lastSuccess" = $1, "lastMessage" = $2, "nationsProcessed" = COALESCE($3, "nationsProcessed")
+         WHERE id = 1`,
+        [success, message, nationsProcessed ?? null]
+    );
+}
+
+/**
+ * Opens a dump_runs history row. Any other row still marked running lost its lock to staleness,
+ * so it is closed as abandoned first.
+ * @returns The new run's id.
+ */
+async function startDumpRun(startedBy: string): Promise<number> {
+    await db.run(
+        `UPDATE dump_runs SET status = 'abandoned', "finishedAt" = NOW(), error = 'Import stopped sending progress and was presumed dead.'
+         WHERE status = 'running'`
+    );
+    const run = await db.get(`INSERT INTO dump_runs ("startedBy", status) VALUES ($1, 'running') RETURNING id`, [startedBy]);
+    return run.id;
+}
+
+async function finishDumpRun(runId: number, result: DumpResult, partial: boolean): Promise<void> {
+    await db.run(
+        `UPDATE dump_runs
+         SET status = $1, "finishedAt" = NOW(), "bytesDownloaded" = $2, "nationsProcessed" = $3, "regionsProcessed" = $4,
+             message = $5, error = $6
+         WHERE id = $7`,
+        [
+            result.success ? (partial ? 'partial' : 'succeeded') : 'failed',
+            result.bytesDownloaded ?? 0,
+            result.nationsProcessed ?? 0,
+            result.regionsProcessed ?? null,
+            result.message,
+            result.error ?? null,
+            runId,
+        ]
+    );
+}
+
+/**
+ * Lists the most recent dump imports, newest first.
+ */
+export async function listDumpRuns(limit: number): Promise<DumpRunRow[]> {
+    return db.all(
+        `SELECT id, "startedAt", "finishedAt", "startedBy", status, "bytesDownloaded"::float8 AS "bytesDownloaded", "nationsProcessed", "regionsProcessed",
+                (EXTRACT(EPOCH FROM ("finishedAt" - "startedAt")) * 1000)::float8 AS "durationMs", message, error
+         FROM dump_runs ORDER BY "startedAt" DESC, id DESC LIMIT $1`,
+        [limit]
+    );
+}
+
+/**
+ * Reports when the nation cache was last refreshed: the last successful full import,
+ * or the newest cache row for deployments whose imports predate run history.
+ * Partial imports only refresh a few nations, so they count for neither.
+ */
+export async function getCacheFreshness(): Promise<CacheFreshness> {
+    const row = await db.get(
+        `SELECT COALESCE(
+                    (SELECT MAX("finishedAt") FROM dump_runs WHERE status = 'succeeded'),
+                    (SELECT MAX("lastUpdated") FROM nation_cache WHERE NOT EXISTS (SELECT 1 FROM dump_runs WHERE status = 'partial'))
+                ) AS "lastUpdated"`
+    );
+    const lastUpdated: Date | null = row?.lastUpdated ?? null;
+    const stale = !lastUpdated || Date.now() - new Date(lastUpdated).getTime() > CACHE_DURATION_HOURS * 60 * 60 * 1000;
+    return { lastUpdated, stale, maxAgeHours: CACHE_DURATION_HOURS };
+}
+
+/**
+ * Runs `processDailyNationDump` and then `processDailyRegionDump` unless another instance is already importing,
+ * publishing progress to dump_import_status as it goes.
+ * A failed regions import leaves the run successful, since the nation cache itself is fresh, but is noted in its message and error.
+ * @param startedBy Who triggered the run, e.g. "cron" or an admin's username.
+ */
+export async function runNationDumpImport(startedBy: string, options: NationDumpImportOptions = {}): Promise<DumpImportResult> {
+    if (!(await claimDumpImport(startedBy))) {
+        const status = await getDumpImportStatus();
+        return { started: false, status: status as DumpImportStatusRow };
+    }
+
+    let lastWrite = 0;
+    let pendingWrite: Promise<void> = Promise.resolve();
+    const onProgress = (progress: DumpProgress) => {
+        options.onProgress?.(progress);
+        const now = Date.now();
+        if (now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+        lastWrite = now;
+        // Chain writes so they land in order; a failed progress write must not fail the import
+        pendingWrite = pendingWrite
+            .then(() => writeDumpProgress(progress))
+            .catch((error) => console.error('Error writing dump import progress:', error));
+    };
+
+    let result: DumpResult = { success: false, message: 'Import did not complete.' };
+    let runId: number | null = null;
+    try {
+        runId = await startDumpRun(startedBy);
+        result = await processDailyNationDump({ onProgress, runId, source: options.nationsSource, limit: options.limit });
+        if (result.success && options.regionsSource !== null) {
+            await pendingWrite;
+            const regionsProgress: DumpProgress = { phase: 'regions', bytesDownloaded: result.bytesDownloaded ?? 0, totalBytes: null, nationsProcessed: result.nationsProcessed ?? 0 };
+            await writeDumpProgress(regionsProgress);
+            options.onProgress?.(regionsProgress);
+            const regions = await processDailyRegionDump({ source: options.regionsSource });
+            result = {
+                ...result,
+                message: `${result.message} ${regions.message}`,
+                regionsProcessed: regions.regionsProcessed,
+                error: regions.error,
+            };
+        }
+    } catch (error: any) {
+        result = { success: false, message: `Import crashed: ${error?.message || String(error)}`, error: error?.stack || String(error) };
+        throw error;
+    } finally {
+        await pendingWrite;
+        if (runId !== null) {
+            await finishDumpRun(runId, result, options.limit !== undefined);
+        }
+        await releaseDumpImport(result.success, result.message, result.nationsProcessed);
+    }
+    return { started: true, runId, ...result };
+}
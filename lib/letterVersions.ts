@@ -0,0 +1,103 @@
+// lib/letterVersions.ts
+import { Marked } from 'marked';
+import { diffWords } from 'diff';
+import { db, Db, LetterVersionRow } from './db';
+import type { AdminUser } from './auth';
+
+// Generous for an open letter, and keeps a pasted document from bloating every version
+export const LETTER_BODY_MAX_LENGTH = 50000;
+
+// Link and image targets allowed in letter text; anything else (e.g. javascript:) is dropped
+const SAFE_URL_PATTERN = /^(https?:|mailto:|#|\/(?!\/))/i;
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const markdown = new Marked({
+    gfm: true,
+    renderer: {
+        // Raw HTML in the Markdown is shown as text, so a pasted snippet can never run in a reader's browser
+        html({ text }) {
+            return escapeHtml(text);
+        },
+    },
+    walkTokens(token) {
+        if ((token.type === 'link' || token.type === 'image') && !SAFE_URL_PATTERN.test(token.href)) {
+            token.href = '#';
+        }
+    },
+});
+
+/**
+ * Renders a letter version's Markdown to HTML. Runs on the server only; the result is safe to insert as-is.
+ */
+export function renderLetterMarkdown(body: string): string {
+    return markdown.parse(body, { async: false });
+}
+
+/**
+ * Normalises letter text as submitted from the dashboard: Unix line endings and no trailing whitespace at the end.
+ * @returns The text to store, or an error message suitable for a 400 response.
+ */
+export function parseLetterBody(raw: unknown): { ok: true; body: string } | { ok: false; error: string } {
+    if (typeof raw !== 'string') {
+        return { ok: false, error: 'body must be a string of Markdown.' };
+    }
+    const body = raw.replace(/\r\n?/g, '\n').trimEnd();
+    if (!body.trim()) {
+        return { ok: false, error: 'The letter text cannot be empty.' };
+    }
+    if (body.length > LETTER_BODY_MAX_LENGTH) {
+        return { ok: false, error: `The letter text may be at most ${LETTER_BODY_MAX_LENGTH} characters.` };
+    }
+    return { ok: true, body };
+}
+
+/**
+ * @returns The letter's latest version, or undefined if no text has been published for it yet.
+ */
+export async function getCurrentLetterVersion(letterId: number, client: Db = db): Promise<LetterVersionRow | undefined> {
+    return client.get('SELECT * FROM letter_versions WHERE "letterId" = $1 ORDER BY version DESC LIMIT 1', [letterId]);
+}
+
+/**
+ * Lists every version of a letter, oldest first.
+ */
+export async function listLetterVersions(letterId: number): Promise<LetterVersionRow[]> {
+    return db.all('SELECT * FROM letter_versions WHERE "letterId" = $1 ORDER BY version', [letterId]);
+}
+
+/**
+ * Publishes `body` as the letter's next version, unless it is identical to the current one.
+ * Versions are never changed afterwards. Must run inside `withTransaction`.
+ * @returns The new version, or null if the text did not change.
+ */
+export async function publishLetterVersion(tx: Db, admin: AdminUser, letterId: number, body: string): Promise<LetterVersionRow | null> {
+    // Serialises publishers of the same letter so version numbers stay consecutive
+    await tx.run('SELECT id FROM letters WHERE id = $1 FOR UPDATE', [letterId]);
+
+    const current = await getCurrentLetterVersion(letterId, tx);
+    if (current?.body === body) {
+        return null;
+    }
+    return tx.get(
+        `INSERT INTO letter_versions ("letterId", version, body, "createdBy")
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [letterId, (current?.version ?? 0) + 1, body, admin.username]
+    );
+}
+
+export interface LetterDiffPart {
+    value: string;
+    added: boolean;
+    removed: boolean;
+}
+
+/**
+ * Word-level differences between two versions' Markdown, for showing what changed.
+ */
+export function diffLetterVersions(previousBody: string, body: string): LetterDiffPart[] {
+    return diffWords(previousBody, body).map(({ value, added, removed }) => ({ value, added, removed }));
+}
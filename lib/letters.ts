@@ -0,0 +1,338 @@
+// lib/letters.ts
+import { db, Db, LetterRow, LetterStatus, QueryParam } from './db';
+import type { AdminUser } from './auth';
+import { parseBannedWords } from './comments';
+
+// Lowercase letters and digits in hyphen-separated words, e.g. "on-separatist-peoples"
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const LETTER_SLUG_MAX_LENGTH = 60;
+export const LETTER_TITLE_MAX_LENGTH = 200;
+
+export const LETTER_STATUSES: LetterStatus[] = ['draft', 'open', 'closed'];
+
+/**
+ * Whether a letter can be signed right now, combining its status with its opening and closing times.
+ */
+export type SigningWindow =
+    | { state: 'draft' }
+    | { state: 'scheduled'; opensAt: Date; closesAt: Date | null }
+    | { state: 'open'; closesAt: Date | null }
+    | { state: 'closed'; closedAt: Date };
+
+// What the public pages need to show a letter; settings stay on the admin side
+export type PublicLetter = Pick<LetterRow, 'id' | 'slug' | 'title' | 'subtitle' | 'embedUrl'> & { signing: SigningWindow };
+
+export interface LetterWithCount extends LetterRow {
+    // Active signatures that count towards the total, following the letter's countCeasedSigners setting
+    signatureCount: number;
+    // The latest version of the letter's text; both null until one is published
+    currentVersion: number | null;
+    body: string | null;
+}
+
+export type LetterSummary = PublicLetter & Pick<LetterWithCount, 'signatureCount'>;
+
+export interface LetterInput {
+    slug?: string;
+    title?: string;
+    subtitle?: string | null;
+    embedUrl?: string | null;
+    // Whether signatures from nations that have since ceased to exist still count towards the letter's total
+    countCeasedSigners?: boolean;
+    // Words and phrases that stop a signer's comment from being submitted, see `sanitizeComment`
+    bannedCommentWords?: string[];
+    status?: LetterStatus;
+    openAt?: Date | null;
+    closeAt?: Date | null;
+}
+
+export type LetterInputResult =
+    | { ok: true; input: LetterInput }
+    | { ok: false; error: string };
+
+// Empty strings clear the optional text fields
+function optionalText(value: unknown): string | null | undefined {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    return String(value).trim() || null;
+}
+
+// Accepts anything Date can parse, such as the ISO strings the dashboard sends; empty strings clear the time
+function optionalTimestamp(value: unknown): Date | null | undefined | 'invalid' {
+    if (value === undefined) return undefined;
+    if (value === null || value === '') return null;
+    if (typeof value !== 'string') return 'invalid';
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? 'invalid' : date;
+}
+
+/**
+ * Validates a letter as submitted from the dashboard. Fields left undefined are not changed;
+ * creating a letter requires at least a slug and a title.
+ * @returns The cleaned-up input, or an error message suitable for a 400 response.
+ */
+export function parseLetterInput(body: Record<string, unknown>, creating: boolean): LetterInputResult {
+    const input: LetterInput = {};
+
+    if (body.slug !== undefined || creating) {
+        const slug = typeof body.slug === 'string' ? body.slug.trim().toLowerCase() : '';
+        if (!SLUG_PATTERN.test(slug) || slug.length > LETTER_SLUG_MAX_LENGTH) {
+            return { ok: false, error: `slug must be up to ${LETTER_SLUG_MAX_LENGTH} lowercase letters, digits and single hyphens.` };
+        }
+        input.slug = slug;
+    }
+    if (body.title !== undefined || creating) {
+        const title = typeof body.title === 'string' ? body.title.trim() : '';
+        if (!title || title.length > LETTER_TITLE_MAX_LENGTH) {
+            return { ok: false, error: `title is required and may be at most ${LETTER_TITLE_MAX_LENGTH} characters.` };
+        }
+        input.title = title;
+    }
+    if (body.subtitle !== undefined && body.subtitle !== null && typeof body.subtitle !== 'string') {
+        return { ok: false, error: 'subtitle must be a string.' };
+    }
+    input.subtitle = optionalText(body.subtitle);
+
+    if (body.embedUrl !== undefined && body.embedUrl !== null && typeof body.embedUrl !== 'string') {
+        return { ok: false, error: 'embedUrl must be a string.' };
+    }
+    const embedUrl = optionalText(body.embedUrl);
+    if (embedUrl) {
+        let url: URL;
+        try {
+            url = new URL(embedUrl);
+        } catch {
+            return { ok: false, error: 'embedUrl must be a valid URL.' };
+        }
+        if (url.protocol !== 'https:') {
+            return { ok: false, error: 'embedUrl must be an https:// address.' };
+        }
+    }
+    input.embedUrl = embedUrl;
+
+    if (body.countCeasedSigners !== undefined) {
+        if (typeof body.countCeasedSigners !== 'boolean') {
+            return { ok: false, error: 'countCeasedSigners must be true or false.' };
+        }
+        input.countCeasedSigners = body.countCeasedSigners;
+    }
+    if (body.bannedCommentWords !== undefined) {
+        const words = body.bannedCommentWords;
+        if (!(Array.isArray(words) && words.every((word) => typeof word === 'string'))) {
+            return { ok: false, error: 'bannedCommentWords must be an array of strings.' };
+        }
+        input.bannedCommentWords = parseBannedWords(words);
+    }
+
+    if (body.status !== undefined) {
+        if (!LETTER_STATUSES.includes(body.status as LetterStatus)) {
+            return { ok: false, error: `status must be one of ${LETTER_STATUSES.join(', ')}.` };
+        }
+        input.status = body.status as LetterStatus;
+    }
+    for (const key of ['openAt', 'closeAt'] as const) {
+        const timestamp = optionalTimestamp(body[key]);
+        if (timestamp === 'invalid') {
+            return { ok: false, error: `${key} must be a date and time, or null.` };
+        }
+        input[key] = timestamp;
+    }
+    if (input.openAt && input.closeAt && input.closeAt <= input.openAt) {
+        return { ok: false, error: 'closeAt must be later than openAt.' };
+    }
+
+    return { ok: true, input };
+}
+
+const LETTER_INPUT_COLUMNS: Record<keyof LetterInput, string> = {
+    slug: 'slug',
+    title: 'title',
+    subtitle: 'subtitle',
+    embedUrl: '"embedUrl"',
+    countCeasedSigners: '"countCeasedSigners"',
+    bannedCommentWords: '"bannedCommentWords"',
+    status: 'status',
+    openAt: '"openAt"',
+    closeAt: '"closeAt"',
+};
+
+/**
+ * Lists every letter, including drafts, oldest first, with its current signature count and text.
+ * Like the public list, the count leaves out anything signed after a letter's close time.
+ */
+export async function listLetters(): Promise<LetterWithCount[]> {
+    return db.all(
+        `SELECT l.*,
+                COUNT(s.id) FILTER (
+                    WHERE s."revokedAt" IS NULL AND s."withdrawnAt" IS NULL AND (nc."ceasedAt" IS NULL OR l."countCeasedSigners")
+                      AND (l."closeAt" IS NULL OR s."signedAt" <= l."closeAt")
+                )::int AS "signatureCount",
+                lv.version AS "currentVersion", lv.body
+         FROM letters l
+         LEFT JOIN LATERAL (
+             SELECT version, body FROM letter_versions WHERE "letterId" = l.id ORDER BY version DESC LIMIT 1
+         ) lv ON TRUE
+         LEFT JOIN signatures s ON s."letterId" = l.id
+         LEFT JOIN nation_cache nc ON nc."nationId" = s."nationId"
+         GROUP BY l.id, lv.version, lv.body
+         ORDER BY l.id`
+    );
+}
+
+export function getSigningWindow(letter: Pick<LetterRow, 'status' | 'openAt' | 'closeAt' | 'updatedAt'>, now = new Date()): SigningWindow {
+    if (letter.status === 'draft') {
+        return { state: 'draft' };
+    }
+    if (letter.status === 'closed') {
+        // Closing a letter sets its close time, see `updateLetter`; the fallback only covers rows changed by hand
+        return { state: 'closed', closedAt: letter.closeAt ?? letter.updatedAt };
+    }
+    if (letter.closeAt && letter.closeAt <= now) {
+        return { state: 'closed', closedAt: letter.closeAt };
+    }
+    if (letter.openAt && letter.openAt > now) {
+        return { state: 'scheduled', opensAt: letter.openAt, closesAt: letter.closeAt };
+    }
+    return { state: 'open', closesAt: letter.closeAt };
+}
+
+function formatUtc(date: Date): string {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+export type SigningCheckResult =
+    | { ok: true }
+    | { ok: false; status: number; code: 'LETTER_NOT_OPEN' | 'LETTER_CLOSED'; error: string };
+
+/**
+ * Refuses to change a letter's signatures outside its signing window. Signing is refused before the letter opens
+ * and after it closes; withdrawing only after it closes, as that is when its list of signatures is frozen.
+ */
+export function checkSigningWindow(window: SigningWindow, action: 'sign' | 'withdraw'): SigningCheckResult {
+    if (window.state === 'closed') {
+        return {
+            ok: false,
+            status: 403,
+            code: 'LETTER_CLOSED',
+            error: `Signatures on this letter closed on ${formatUtc(window.closedAt)}${action === 'withdraw' ? ' and can no longer be withdrawn' : ''}.`,
+        };
+    }
+    if (action === 'sign' && window.state !== 'open') {
+        return {
+            ok: false,
+            status: 403,
+            code: 'LETTER_NOT_OPEN',
+            error: window.state === 'scheduled' ? `This letter opens for signatures on ${formatUtc(window.opensAt)}.` : 'This letter is not open for signatures.',
+        };
+    }
+    return { ok: true };
+}
+
+export function toPublicLetter(letter: LetterRow): PublicLetter {
+    return { id: letter.id, slug: letter.slug, title: letter.title, subtitle: letter.subtitle, embedUrl: letter.embedUrl, signing: getSigningWindow(letter) };
+}
+
+export async function getLetterById(id: number): Promise<LetterRow | undefined> {
+    return db.get('SELECT * FROM letters WHERE id = $1', [id]);
+}
+
+export async function getLetterBySlug(slug: string): Promise<LetterRow | undefined> {
+    return db.get('SELECT * FROM letters WHERE slug = $1', [slug]);
+}
+
+/**
+ * Looks a letter up for the public pages, which treat drafts as if they did not exist.
+ */
+export async function getPublishedLetterBySlug(slug: string): Promise<LetterRow | undefined> {
+    return db.get(`SELECT * FROM letters WHERE slug = $1 AND status <> 'draft'`, [slug]);
+}
+
+/**
+ * The letter old links such as /sign lead to: the first one created, which is the one this site started with.
+ */
+export async function getOriginalLetter(): Promise<LetterRow | undefined> {
+    return db.get('SELECT * FROM letters ORDER BY id LIMIT 1');
+}
+
+/**
+ * Adjusts an update that sets a closed letter back to open. Closing left its close time in the past, see `updateLetter`,
+ * so that time is cleared unless the update gives a new one, which must then be in the future.
+ * @returns The input to apply, or an error message suitable for a 400 response.
+ */
+export function prepareReopening(update: LetterInput, now = new Date()): LetterInputResult {
+    if (update.closeAt === undefined) {
+        return { ok: true, input: { ...update, closeAt: null } };
+    }
+    if (update.closeAt && update.closeAt <= now) {
+        return { ok: false, error: 'A reopened letter needs a closeAt in the future, or none at all; with a past one it would stay closed.' };
+    }
+    return { ok: true, input: update };
+}
+
+export class LetterScheduleError extends Error {
+    constructor() {
+        super('closeAt must be later than openAt. A closed letter closes at the latest when it is closed, so it cannot open after that.');
+        this.name = 'LetterScheduleError';
+    }
+}
+
+/**
+ * Checks the close time a create or update ends up with, which may come from the stored row or from closing the letter
+ * rather than from the input `parseLetterInput` checked. Throwing rolls back the caller's transaction.
+ * @throws LetterScheduleError if the letter would close before it opens.
+ */
+function assertOpensBeforeClosing(letter: LetterRow): LetterRow {
+    if (letter.openAt && letter.closeAt && letter.closeAt <= letter.openAt) {
+        throw new LetterScheduleError();
+    }
+    return letter;
+}
+
+/**
+ * Creates a letter from input already checked by `parseLetterInput`.
+ * @throws LetterScheduleError if it would close before it opens.
+ */
+export async function createLetter(tx: Db, admin: AdminUser, input: LetterInput): Promise<LetterRow> {
+    if (input.status === 'closed') {
+        const now = new Date();
+        input = { ...input, closeAt: input.closeAt && input.closeAt < now ? input.closeAt : now };
+    }
+    const keys = (Object.keys(LETTER_INPUT_COLUMNS) as (keyof LetterInput)[]).filter((key) => input[key] !== undefined);
+    const params: QueryParam[] = keys.map((key) => input[key] as QueryParam);
+    params.push(admin.username);
+    const letter: LetterRow = await tx.get(
+        `INSERT INTO letters (${keys.map((key) => LETTER_INPUT_COLUMNS[key]).join(', ')}, "createdBy", "updatedBy")
+         VALUES (${keys.map((_key, index) => `$${index + 1}`).join(', ')}, $${params.length}, $${params.length})
+         RETURNING *`,
+        params
+    );
+    return assertOpensBeforeClosing(letter);
+}
+
+/**
+ * Applies the given changes, leaving unset fields as they are.
+ * @returns The letter after the update, or undefined if it does not exist.
+ * @throws LetterScheduleError if the letter would then close before it opens.
+ */
+export async function updateLetter(tx: Db, admin: AdminUser, id: number, update: LetterInput): Promise<LetterRow | undefined> {
+    const keys = (Object.keys(LETTER_INPUT_COLUMNS) as (keyof LetterInput)[]).filter((key) => update[key] !== undefined);
+    const params: QueryParam[] = keys.map((key) => update[key] as QueryParam);
+    // A closed letter's close time is when its list was frozen, so closing one early brings the time forward to now.
+    // clock_timestamp() rather than NOW(): the row lock may only be granted after a signature holding it commits, see pages/api/sign.ts
+    const assignments = keys
+        .filter((key) => !(key === 'closeAt' && update.status === 'closed'))
+        .map((key) => `${LETTER_INPUT_COLUMNS[key]} = $${keys.indexOf(key) + 1}`);
+    if (update.status === 'closed') {
+        const closeAt = update.closeAt === undefined ? '"closeAt"' : `$${keys.indexOf('closeAt') + 1}::timestamptz`;
+        assignments.push(`"closeAt" = LEAST(COALESCE(${closeAt}, clock_timestamp()), clock_timestamp())`);
+    }
+    params.push(admin.username, id);
+    const letter: LetterRow | undefined = await tx.get(
+        `UPDATE letters
+         SET ${[...assignments, '"updatedAt" = NOW()', `"updatedBy" = $${params.length - 1}`].join(', ')}
+         WHERE id = $${params.length}
+         RETURNING *`,
+        params
+    );
+    return letter && assertOpensBeforeClosing(letter);
+}
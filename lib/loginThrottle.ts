@@ -0,0 +1,177 @@
+// lib/loginThrottle.ts
+import { NextApiRequest } from 'next';
+import { db, withTransaction, Db, LoginLockoutEventRow } from './db';
+
+export type ThrottleKind = 'account' | 'ip';
+
+interface ThrottlePolicy {
+    freeAttempts: number; // Failures allowed before any delay
+    lockoutThreshold: number; // Failures that trigger a full lockout
+}
+
+// An IP may legitimately fail across several accounts (shared office, typos), so it gets more slack
+const POLICIES: Record<ThrottleKind, ThrottlePolicy> = {
+    account: { freeAttempts: 3, lockoutThreshold: 10 },
+    ip: { freeAttempts: 10, lockoutThreshold: 50 },
+};
+
+const BASE_DELAY_SECONDS = 2;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+const LOCKOUT_SECONDS = 30 * 60;
+// Failure counts reset once an account or IP has been quiet for this long
+const FAILURE_WINDOW_HOURS = 24;
+
+export interface LoginBlock {
+    kind: ThrottleKind;
+    retryAfterSeconds: number;
+}
+
+/**
+ * The client IP as seen by the nearest trusted proxy. Clients can put anything in X-Forwarded-For, but each proxy
+ * appends the address it received the request from, so with `TRUSTED_PROXY_HOPS` proxies in front of the app the
+ * entry that many places from the end is the first one no client could have forged.
+ * Without trusted proxies the header is ignored and the socket address is used.
+ */
+export function getClientIp(req: NextApiRequest): string {
+    const trustedHops = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
+    if (trustedHops > 0) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+            .split(',')
+            .map((hop) => hop.trim())
+            .filter(Boolean);
+        const client = hops[hops.length - trustedHops];
+        if (client) return client;
+    }
+    return req.socket?.remoteAddress || 'unknown';
+}
+
+function throttleKeys(username: string, ip: string): [ThrottleKind, string][] {
+    // Usernames are tracked whether or not they exist, so lockouts do not reveal which accounts are real
+    return [['account', username.toLowerCase()], ['ip', ip]];
+}
+
+/**
+ * Exponential backoff after the free attempts, then a fixed lockout at the threshold.
+ */
+function delaySecondsFor(policy: ThrottlePolicy, failures: number): number {
+    if (failures >= policy.lockoutThreshold) return LOCKOUT_SECONDS;
+    if (failures <= policy.freeAttempts) return 0;
+    return Math.min(BASE_DELAY_SECONDS * 2 ** (failures - policy.freeAttempts - 1), MAX_BACKOFF_SECONDS);
+}
+
+/**
+ * @returns The longest active block on either the account or the IP, or null if a login attempt may proceed.
+ */
+export async function getLoginBlock(username: string, ip: string): Promise<LoginBlock | null> {
+    const keys = throttleKeys(username, ip);
+    const rows = await db.all(
+        `SELECT kind, CEIL(EXTRACT(EPOCH FROM ("lockedUntil" - NOW())))::int AS "retryAfterSeconds"
+         FROM login_attempts
+         WHERE ((kind = $1 AND key = $2) OR (kind = $3 AND key = $4)) AND "lockedUntil" > NOW()
+         ORDER BY "lockedUntil" DESC LIMIT 1`,
+        keys.flat()
+    );
+    return rows[0] || null;
+}
+
+/**
+ * Counts a failed login against one counter, extending its backoff and recording a lockout event
+ * when it crosses its threshold. The caller must hold the counter's row lock.
+ */
+async function countFailure(tx: Db, kind: ThrottleKind, key: string, ip: string): Promise<void> {
+    const policy = POLICIES[kind];
+    const row = await tx.get(
+        `UPDATE login_attempts SET
+             failures = CASE
+                 WHEN "lastFailureAt" < NOW() - ($3 || ' hours')::interval THEN 1
+                 ELSE failures + 1
+             END,
+             "lastFailureAt" = NOW()
+         WHERE kind = $1 AND key = $2
+         RETURNING failures`,
+        [kind, key, String(FAILURE_WINDOW_HOURS)]
+    );
+    const failures: number = row.failures;
+    const delaySeconds = delaySecondsFor(policy, failures);
+    if (delaySeconds === 0) return;
+
+    await tx.run(
+        `UPDATE login_attempts SET "lockedUntil" = NOW() + ($1 || ' seconds')::interval WHERE kind = $2 AND key = $3`,
+        [String(delaySeconds), kind, key]
+    );
+
+    if (failures === policy.lockoutThreshold) {
+        console.warn(`Admin login lockout: ${kind} "${key}" after ${failures} failed attempts.`);
+        await tx.run(
+            `INSERT INTO login_lockout_events (kind, key, failures, "lockedUntil", "ipAddress")
+             VALUES ($1, $2, $3, NOW() + ($4 || ' seconds')::interval, $5)`,
+            [kind, key, failures, String(delaySeconds), ip]
+        );
+    }
+}
+
+/**
+ * Claims a login attempt before the password is checked. The attempt is counted as a failure against both the
+ * account and the IP straight away, with their rows locked, so parallel guesses are checked and counted one at a time
+ * and cannot all slip in before the first of them sets a backoff. A successful login hands it back with `clearLoginFailures`.
+ * @returns The longest active block on either the account or the IP, in which case nothing is counted,
+ * or null if the attempt may proceed.
+ */
+export async function reserveLoginAttempt(username: string, ip: string): Promise<LoginBlock | null> {
+    const keys = throttleKeys(username, ip);
+    return withTransaction(async (tx) => {
+        await tx.run(
+            'INSERT INTO login_attempts (kind, key) VALUES ($1, $2), ($3, $4) ON CONFLICT (kind, key) DO NOTHING',
+            keys.flat()
+        );
+        // Always locked in the same order, so two attempts never wait on each other's rows
+        const rows: (LoginBlock & { locked: boolean })[] = await tx.all(
+            `SELECT kind, "lockedUntil" > NOW() AS locked, CEIL(EXTRACT(EPOCH FROM ("lockedUntil" - NOW())))::int AS "retryAfterSeconds"
+             FROM login_attempts
+             WHERE (kind = $1 AND key = $2) OR (kind = $3 AND key = $4)
+             ORDER BY kind
+             FOR UPDATE`,
+            keys.flat()
+        );
+        const blocks = rows.filter((row) => row.locked).sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds);
+        if (blocks.length > 0) {
+            return { kind: blocks[0].kind, retryAfterSeconds: blocks[0].retryAfterSeconds };
+        }
+
+        for (const [kind, key] of keys) {
+            await countFailure(tx, kind, key, ip);
+        }
+        return null;
+    });
+}
+
+/**
+ * After a successful login, resets the account's counter and hands back the attempt reserved against the IP.
+ * The IP's other failures are kept, so signing in to one account cannot wipe out guesses made at others.
+ */
+export async function clearLoginFailures(username: string, ip: string): Promise<void> {
+    await db.run(`DELETE FROM login_attempts WHERE kind = 'account' AND key = $1`, [username.toLowerCase()]);
+    await db.run(`UPDATE login_attempts SET failures = GREATEST(failures - 1, 0) WHERE kind = 'ip' AND key = $1`, [ip]);
+}
+
+/**
+ * Lists recent lockouts, newest first, with whether each is still in force.
+ */
+export async function listLockoutEvents(limit: number): Promise<(LoginLockoutEventRow & { active: boolean })[]> {
+    return db.all(
+        `SELECT e.*, (a."lockedUntil" IS NOT NULL AND a."lockedUntil" > NOW() AND e."lockedUntil" > NOW()) AS active
+         FROM login_lockout_events e
+         LEFT JOIN login_attempts a ON a.kind = e.kind AND a.key = e.key
+         ORDER BY e."createdAt" DESC, e.id DESC
+         LIMIT $1`,
+        [limit]
+    );
+}
+
+/**
+ * Lifts a lockout early, e.g. once an owner has confirmed the failed attempts were a colleague's typos.
+ */
+export async function unlockLogin(kind: ThrottleKind, key: string): Promise<void> {
+    await db.run('DELETE FROM login_attempts WHERE kind = $1 AND key = $2', [kind, key]);
+}
@@ -0,0 +1,19 @@
+// lib/nationId.ts
+// Pure helpers with no server dependencies, so they are safe to import from client components too.
+
+/**
+ * Converts a nation name to NationStates' canonical ID form: trimmed, lowercased, with whitespace runs as underscores.
+ * "Testlandia", " testlandia" and "TESTLANDIA" all map to "testlandia"; "Test landia" and "test_landia" to "test_landia".
+ * Keep in sync with `nationIdSql` below, which the database migration uses for existing rows.
+ */
+export function toNationId(nationName: string): string {
+    return nationName.trim().replace(/\s+/g, '_').toLowerCase();
+}
+
+/**
+ * SQL expression equivalent of `toNationId` for a column or parameter reference.
+ */
+export function nationIdSql(expression: string): string {
+    return `LOWER(REGEXP_REPLACE(REGEXP_REPLACE(${expression}, '^\\s+|\\s+$', '', 'g'), '\\s+', '_', 'g'))`;
+}
+
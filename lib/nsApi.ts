@@ -1,57 +1,65 @@
 // lib/nsApi.ts
-import { parseStringPromise } from 'xml2js'; // Still useful for parsing structured XML if needed, but not for nation chunks now
-import { db, NationCacheRow } from './db';
-import { throttledNsFetch, FetchError } from './nsRateLimiter';
-import * as crypto from 'crypto';
+import { parseStringPromise } from 'xml2js'; // For single-nation API responses; the dumps are streamed with sax
+import { db, withTransaction, NationCacheRow, QueryParam } from './db';
+import { throttledNsFetch, FetchError, NsRateLimiterUnavailableError } from './nsRateLimiter';
+import { toNationId } from './nationId';
+import { findLiveVerificationToken, consumeVerificationToken } from './verificationTokens';
 import * as zlib from 'zlib';
 import { pipeline } from 'stream/promises';
+import { PassThrough, Transform, Writable } from 'stream';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as sax from 'sax'; // NEW: Streaming XML parser
 
-const NS_API_BASE_URL = 'https://www.nationstates.net/cgi-bin/api.cgi';
-const NS_DUMP_NATIONS_URL = 'https://www.nationstates.net/pages/nations.xml.gz';
-const USER_AGENT = 'OpenLetterNSVerify/1.0 (contact@example.com - replace with your actual contact)';
+// Every NationStates endpoint can be overridden, e.g. to point at the mock server in test/mockNs/server.ts
+const NS_API_BASE_URL = process.env.NS_API_BASE_URL || 'https://www.nationstates.net/cgi-bin/api.cgi';
+const NS_DUMP_NATIONS_URL = process.env.NS_DUMP_NATIONS_URL || 'https://www.nationstates.net/pages/nations.xml.gz';
+const NS_DUMP_REGIONS_URL = process.env.NS_DUMP_REGIONS_URL || 'https://www.nationstates.net/pages/regions.xml.gz';
+// NationStates asks every script to identify itself with a way to contact its operator
+const USER_AGENT = process.env.NS_USER_AGENT || 'OpenLetterNSVerify/1.0 (contact@example.com - replace with your actual contact)';
 
-const CACHE_DURATION_HOURS = 24;
+// The cache is considered stale once the last successful dump import is older than this
+export const CACHE_DURATION_HOURS = 24;
+// A nations dump smaller than this share of the last successful import is rejected as truncated or broken
+const DUMP_MIN_ROW_RATIO = Number(process.env.DUMP_MIN_ROW_RATIO) || 0.9;
+// How long the region and flag changes recorded by each import are kept
+const NATION_CHANGE_RETENTION_DAYS = 90;
 
-function generateNSTokenServer(nationName: string): string {
-    if (!process.env.NEXT_PUBLIC_NS_VERIFY_TOKEN_SECRET) {
-        throw new Error('NEXT_PUBLIC_NS_VERIFY_TOKEN_SECRET is not set for server-side token generation.');
+/**
+ * Asks NationStates whether `checksum` is valid for `nationName` under the site token we issued for this attempt.
+ * The token is consumed on success, so each verify link can sign only once.
+ * @throws NsRateLimiterUnavailableError if the request could not be sent, since that says nothing about the checksum.
+ */
+export async function verifyNation(nationName: string, checksum: string, token: string): Promise<boolean> {
+    const tokenId = await findLiveVerificationToken(nationName, token);
+    if (tokenId === null) {
+        console.warn(`Rejected verification for ${nationName}: token is unknown, expired, already used, or for another nation.`);
+        return false;
     }
-    return crypto
-        .createHmac('sha256', process.env.NEXT_PUBLIC_NS_VERIFY_TOKEN_SECRET)
-        .update(nationName.toLowerCase())
-        .digest('hex');
-}
 
-export async function verifyNation(nationName: string, checksum: string): Promise<boolean> {
-    const token = generateNSTokenServer(nationName);
     const url = new URL(NS_API_BASE_URL);
     url.searchParams.append('a', 'verify');
-    url.searchParams.append('nation', nationName.replace(/ /g, '_'));
+    url.searchParams.append('nation', toNationId(nationName));
     url.searchParams.append('checksum', checksum);
     url.searchParams.append('token', token);
 
-    const fetchCall = async () => {
-        const response = await fetch(url.toString(), {
-            headers: {
-                'User-Agent': USER_AGENT,
-            },
-            cache: 'no-store',
-        });
-
-        if (!response.ok) {
-            throw new FetchError(`HTTP error! status: ${response.status}`, response);
-        }
-        return response.text();
-    };
+    const fetchCall = () => fetch(url.toString(), {
+        headers: {
+            'User-Agent': USER_AGENT,
+        },
+        cache: 'no-store',
+    });
 
     try {
-        const textResult = await throttledNsFetch(fetchCall, url.toString());
-        return textResult.trim() === '1';
+        // A signer is waiting on this, so it goes ahead of background cache fills
+        const response = await throttledNsFetch(fetchCall, url.toString(), { priority: 'interactive' });
+        const textResult = await response.text();
+        return textResult.trim() === '1' && await consumeVerificationToken(tokenId);
     } catch (error: any) {
+        if (error instanceof NsRateLimiterUnavailableError) {
+            throw error;
+        }
         if (error instanceof FetchError) {
             const errorText = await error.response.text();
             console.error(`NationStates API error (verify ${nationName}): Status ${error.response.status} - ${error.response.statusText}. Details: ${errorText}`);
@@ -71,14 +79,14 @@ interface NationDisplayData {
 export async function getNationDisplayData(nationName: string): Promise<NationDisplayData | null> {
     try {
         const cachedData: NationCacheRow | undefined = await db.get(
-            'SELECT "flagUrl", region FROM nation_cache WHERE "nationName" = $1',
-            [nationName]
+            'SELECT "nationName", "flagUrl", region FROM nation_cache WHERE "nationId" = $1',
+            [toNationId(nationName)]
         );
 
         if (cachedData) {
             console.log(`Cache hit for ${nationName}. Returning cached data.`);
             return {
-                name: nationName,
+                name: cachedData.nationName,
                 flagUrl: cachedData.flagUrl,
                 region: cachedData.region,
             };
@@ -92,36 +100,268 @@ export async function getNationDisplayData(nationName: string): Promise<NationDi
     }
 }
 
+// API shards covering every column nation_cache keeps; `wa` answers with <UNSTATUS>, like the dump
+const NATION_CACHE_SHARDS = ['name', 'flag', 'region', 'fullname', 'category', 'wa', 'endorsements', 'population', 'influence', 'firstlogin', 'foundedtime'];
+
 /**
- * Downloads the daily nations dump, processes it in a streaming fashion,
- * and updates the nation_cache table.
+ * Fetches one nation from the live API, through the shared throttle, and upserts it into nation_cache.
+ * Used to fill the cache for nations that signed before the next dump import picked them up.
+ * @returns True if the nation was found and cached.
+ */
+export async function refreshNationFromApi(nationName: string): Promise<boolean> {
+    const url = new URL(NS_API_BASE_URL);
+    url.searchParams.append('nation', toNationId(nationName));
+    url.searchParams.append('q', NATION_CACHE_SHARDS.join('+'));
+    // URLSearchParams encodes '+' as %2B, which the API does not accept as a shard separator
+    const requestUrl = url.toString().replace(/%2B/g, '+');
+
+    const fetchCall = () => fetch(requestUrl, {
+        headers: {
+            'User-Agent': USER_AGENT,
+        },
+        cache: 'no-store',
+    });
+
+    try {
+        const response = await throttledNsFetch(fetchCall, requestUrl, { priority: 'background' });
+        const xml = await response.text();
+        const parsed = await parseStringPromise(xml);
+        const nation: Partial<Record<CollectedNationTag, string>> = {};
+        for (const tag of COLLECTED_NATION_TAGS) {
+            const value = parsed?.NATION?.[tag]?.[0];
+            if (typeof value === 'string') nation[tag] = value.trim();
+        }
+
+        const record = toNationDumpRecord(nation);
+        if (!record) {
+            console.warn(`NationStates API returned no nation data for ${nationName}.`);
+            return false;
+        }
+        await insertNationBatch([record]);
+        console.log(`Cached ${record.nationName} from the live NationStates API.`);
+        return true;
+    } catch (error: any) {
+        if (error instanceof FetchError) {
+            console.error(`NationStates API error (nation ${nationName}): Status ${error.response.status} - ${error.response.statusText}.`);
+        } else {
+            console.error(`Error fetching nation from NationStates API (${nationName}): ${error?.message || error}`);
+        }
+        return false;
+    }
+}
+
+export interface DumpProgress {
+    phase: 'downloading' | 'parsing' | 'swapping' | 'regions';
+    bytesDownloaded: number;
+    totalBytes: number | null; // From Content-Length, when NationStates sends it
+    nationsProcessed: number;
+}
+
+export interface DumpResult {
+    success: boolean;
+    message: string;
+    nationsProcessed?: number;
+    bytesDownloaded?: number;
+    nationsCeased?: number;
+    nationsRemoved?: number;
+    changesRecorded?: number;
+    regionsProcessed?: number;
+    error?: string;
+}
+
+// One <NATION> from the dump, reduced to the columns nation_cache keeps
+interface NationDumpRecord {
+    nationName: string;
+    flagUrl: string;
+    region: string;
+    fullName: string | null;
+    category: string | null;
+    waStatus: string | null;
+    endorsementCount: number | null;
+    population: number | null;
+    influence: string | null;
+    firstLoginAt: Date | null;
+    foundedAt: Date | null;
+}
+
+// Direct children of <NATION> that are collected; everything else in the dump is skipped
+const COLLECTED_NATION_TAGS = [
+    'NAME', 'FLAG', 'REGION', 'FULLNAME', 'CATEGORY', 'UNSTATUS', 'ENDORSEMENTS',
+    'POPULATION', 'INFLUENCE', 'FIRSTLOGIN', 'FOUNDEDTIME',
+] as const;
+
+type CollectedNationTag = typeof COLLECTED_NATION_TAGS[number];
+
+function parseInteger(value: string | undefined): number | null {
+    if (!value) return null;
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+// The dump uses Unix seconds, with 0 for nations older than the field
+function parseUnixTime(value: string | undefined): Date | null {
+    const seconds = parseInteger(value);
+    return seconds ? new Date(seconds * 1000) : null;
+}
+
+// The API sends full flag URLs; bare flag codes are expanded to the standard flag path
+function toFlagUrl(flag: string | undefined): string {
+    if (!flag) return '';
+    return /^https?:\/\//.test(flag) ? flag : `https://www.nationstates.net/images/flags/${flag}.jpg`;
+}
+
+function toNationDumpRecord(nation: Partial<Record<CollectedNationTag, string>>): NationDumpRecord | null {
+    if (!nation.NAME) return null;
+    return {
+        nationName: nation.NAME,
+        flagUrl: toFlagUrl(nation.FLAG),
+        region: nation.REGION || 'Unknown Region',
+        fullName: nation.FULLNAME || null,
+        category: nation.CATEGORY || null,
+        waStatus: nation.UNSTATUS || null,
+        // A comma-separated list of endorsing nations; an empty tag means none
+        endorsementCount: nation.ENDORSEMENTS ? nation.ENDORSEMENTS.split(',').filter(Boolean).length : 0,
+        population: parseInteger(nation.POPULATION),
+        influence: nation.INFLUENCE || null,
+        firstLoginAt: parseUnixTime(nation.FIRSTLOGIN),
+        foundedAt: parseUnixTime(nation.FOUNDEDTIME),
+    };
+}
+
+export interface ProcessDumpOptions {
+    // Called as the download and parse advance; must not throw
+    onProgress?: (progress: DumpProgress) => void;
+    // The dump_runs row the recorded nation changes belong to
+    runId?: number;
+    // A local .xml or .xml.gz file, or a URL, to import instead of the live dump
+    source?: string;
+    // Parse and count only; nothing is written to the database
+    dryRun?: boolean;
+    // Stop after this many nations. Such a partial import only upserts them: missing nations are not flagged or removed.
+    limit?: number;
+}
+
+/**
+ * Streams a gzipped dump to `tempFilePath`, reporting the running byte count and the size from Content-Length, if sent.
+ */
+async function downloadDump(
+    url: string,
+    tempFilePath: string,
+    onBytes: (bytesDownloaded: number, totalBytes: number | null) => void
+): Promise<void> {
+    console.log(`Downloading dump from ${url} to ${tempFilePath}`);
+    const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT }
+    });
+
+    if (!response.ok || !response.body) {
+        throw new Error(`Failed to download daily dump: ${response.status} - ${response.statusText}`);
+    }
+
+    const contentLength = Number(response.headers.get('content-length'));
+    const totalBytes = contentLength > 0 ? contentLength : null;
+    let bytesDownloaded = 0;
+    onBytes(bytesDownloaded, totalBytes);
+
+    // Pass-through that counts bytes so callers can show download progress
+    const byteCounter = new Transform({
+        transform(chunk, _encoding, callback) {
+            bytesDownloaded += chunk.length;
+            onBytes(bytesDownloaded, totalBytes);
+            callback(null, chunk);
+        },
+    });
+
+    const fileWriteStream = fs.createWriteStream(tempFilePath);
+    await pipeline(response.body as any, byteCounter, fileWriteStream);
+    console.log('Dump downloaded successfully.');
+}
+
+/**
+ * Resolves a dump source to a file that can be parsed: URLs are downloaded to `tempFilePath`, local paths are used as they are.
+ */
+async function fetchDumpSource(
+    source: string,
+    tempFilePath: string,
+    onBytes: (bytesDownloaded: number, totalBytes: number | null) => void
+): Promise<string> {
+    if (/^https?:\/\//i.test(source)) {
+        await downloadDump(source, tempFilePath, onBytes);
+        return tempFilePath;
+    }
+    // Fails early, with the path in the message, rather than partway into the pipeline
+    await fs.promises.access(source, fs.constants.R_OK);
+    return source;
+}
+
+/**
+ * Feeds a sax stream from a proper Writable. sax's own stream never emits 'finish', so `pipeline` would never
+ * settle with it as the last stage; this one finishes once the parser has seen the end of the document.
+ */
+function saxSink(saxStream: sax.SAXStream): Writable {
+    const sink = new Writable({
+        write(chunk, _encoding, callback) {
+            saxStream.write(chunk);
+            callback();
+        },
+        final(callback) {
+            saxStream.end();
+            callback();
+        },
+    });
+    saxStream.on('error', (error: Error) => sink.destroy(error));
+    return sink;
+}
+
+// Dumps may be given gzipped or already unpacked; gzip files start with the bytes 1f 8b
+async function isGzipFile(filePath: string): Promise<boolean> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+        const { buffer, bytesRead } = await handle.read(Buffer.alloc(2), 0, 2, 0);
+        return bytesRead === 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Downloads the daily nations dump (or reads `options.source`) and streams it into nation_cache_staging.
+ * Once the whole dump has parsed and passed `validateStagedNations`, it replaces the live nation_cache in a single transaction,
+ * so a failed or truncated import never leaves the cache half-updated.
  * This should be triggered as a scheduled task (e.g., via a cron job).
  */
-export async function processDailyNationDump(): Promise<{ success: boolean; message: string; nationsProcessed?: number }> {
-    console.log('Starting daily nations dump processing (streaming object-building approach)...');
+export async function processDailyNationDump(options: ProcessDumpOptions = {}): Promise<DumpResult> {
+    console.log('Starting daily nations dump processing (streaming into staging)...');
+    const { dryRun = false, limit } = options;
+    const partial = limit !== undefined;
     const tempFilePath = path.join(os.tmpdir(), `nations_dump_${Date.now()}.xml.gz`);
     let nationsProcessed = 0;
-    let batch: { nationName: string; flagUrl: string; region: string }[] = [];
+    let batch: NationDumpRecord[] = [];
     const BATCH_SIZE = 500; // Adjust based on your database performance and Vercel limits
+    let bytesDownloaded = 0;
+    let totalBytes: number | null = null;
+    const reportProgress = (phase: DumpProgress['phase']) => {
+        options.onProgress?.({ phase, bytesDownloaded, totalBytes, nationsProcessed });
+    };
 
     try {
-        // 1. Download the gzipped dump file
-        console.log(`Downloading dump from ${NS_DUMP_NATIONS_URL} to ${tempFilePath}`);
-        const response = await fetch(NS_DUMP_NATIONS_URL, {
-            headers: { 'User-Agent': USER_AGENT }
+        // 1. Download the gzipped dump file, unless a local one was given
+        const dumpFilePath = await fetchDumpSource(options.source ?? NS_DUMP_NATIONS_URL, tempFilePath, (downloaded, total) => {
+            bytesDownloaded = downloaded;
+            totalBytes = total;
+            reportProgress('downloading');
         });
 
-        if (!response.ok || !response.body) {
-            throw new Error(`Failed to download daily dump: ${response.status} - ${response.statusText}`);
+        // 2. Stream the dump into the staging table
+        reportProgress('parsing');
+        let parseStartedAt: Date | null = null;
+        if (!dryRun) {
+            // Database time, so it compares cleanly with the "lastUpdated" that live API refreshes write
+            parseStartedAt = (await db.get('SELECT NOW() AS now')).now;
+            // The import lock guarantees nobody else is using the staging table
+            await db.run('TRUNCATE nation_cache_staging');
         }
-
-        const fileWriteStream = fs.createWriteStream(tempFilePath);
-        await pipeline(response.body as any, fileWriteStream);
-        console.log('Dump downloaded successfully.');
-
-        // 2. Set up streaming XML parser to build objects directly
-        const gunzip = zlib.createGunzip();
-        const xmlReadStream = fs.createReadStream(tempFilePath);
+        const xmlReadStream = fs.createReadStream(dumpFilePath);
 
         const saxStream = sax.createStream(true, { // `true` for strict parsing
             trim: true,
@@ -130,111 +370,475 @@ export async function processDailyNationDump(): Promise<{ success: boolean; mess
             position: true
         });
 
-        let currentNation: { NAME?: string; FLAG?: string; REGION?: string } = {};
+        let currentNation: Partial<Record<CollectedNationTag, string>> = {};
         let currentTag: string | null = null; // To keep track of the tag whose text content we're currently collecting
-
-        // Promise to track the completion of XML parsing and batch insertions
-        const nationParsingPromise = new Promise<void>((resolve, reject) => {
-            saxStream.on('error', (e: any) => {
-                console.error('SAX Parser Error:', e);
-                reject(e);
+        let nationDepth = 0; // 1 inside <NATION>, 2 inside one of its direct children, and so on
+        let nationsParsed = 0;
+        let limitReached = false;
+        // Inserts run one after another; each batch is handed over before the next one starts filling
+        let pendingInserts: Promise<void> = Promise.resolve();
+        const flushBatch = () => {
+            const nations = batch;
+            batch = [];
+            pendingInserts = pendingInserts.then(async () => {
+                if (!dryRun) await stageNationBatch(nations);
+                nationsProcessed += nations.length;
+                reportProgress('parsing');
             });
+            // A failed insert stops the parse instead of surfacing only once the whole dump has been read
+            pendingInserts.catch((error) => xmlReadStream.destroy(error));
+        };
+
+        saxStream.on('opentag', (node: sax.Tag) => {
+            if (node.name === 'NATION') {
+                currentNation = {}; // Start a new nation object
+                nationDepth = 1;
+            } else if (nationDepth > 0) {
+                nationDepth++;
+            }
+            currentTag = node.name; // Keep track of the currently open tag
+        });
 
-            saxStream.on('opentag', (node: sax.Tag) => {
-                if (node.name === 'NATION') {
-                    currentNation = {}; // Start a new nation object
-                }
-                currentTag = node.name; // Keep track of the currently open tag
-            });
+        saxStream.on('text', (text: string) => {
+            // Only collect text for the direct children of <NATION> we care about; nested tags can reuse names
+            if (currentTag && nationDepth === 2 && (COLLECTED_NATION_TAGS as readonly string[]).includes(currentTag)) {
+                const tag = currentTag as CollectedNationTag;
+                // Append text content. SAX provides unescaped text.
+                currentNation[tag] = (currentNation[tag] || '') + text;
+            }
+        });
 
-            saxStream.on('text', (text: string) => {
-                if (currentTag && currentNation) {
-                    // Only collect text for specific top-level tags we care about
-                    if (['NAME', 'FLAG', 'REGION'].includes(currentTag)) {
-                        // Append text content. SAX provides unescaped text.
-                        (currentNation as any)[currentTag] = (currentNation as any)[currentTag] ? (currentNation as any)[currentTag] + text : text;
+        saxStream.on('closetag', (tagName: string) => {
+            currentTag = null; // Clear current tag context
+            if (nationDepth > 0) nationDepth--;
+
+            if (tagName === 'NATION' && !limitReached) {
+                // NATION tag closed, process the collected nation data
+                const record = toNationDumpRecord(currentNation);
+                if (record) { // Ensure it's a valid nation
+                    batch.push(record);
+                    nationsParsed++;
+                    if (batch.length >= BATCH_SIZE) flushBatch();
+                    if (limit !== undefined && nationsParsed >= limit) {
+                        // Nothing after this is needed; stop reading instead of parsing the rest of the file
+                        limitReached = true;
+                        xmlReadStream.destroy();
                     }
                 }
-            });
+                currentNation = {}; // Reset for the next nation
+            }
+        });
 
-            saxStream.on('closetag', async (tagName: string) => {
-                currentTag = null; // Clear current tag context
+        // Pipe streams: (gzipped) file -> gunzip -> sax parser
+        const decompress = await isGzipFile(dumpFilePath) ? zlib.createGunzip() : new PassThrough();
+        try {
+            await pipeline(xmlReadStream, decompress, saxSink(saxStream));
+        } catch (error) {
+            // Stopping at the limit closes the pipeline early on purpose
+            if (!limitReached) throw error;
+        }
+        flushBatch();
+        await pendingInserts;
+        console.log(`Finished streaming processing. Total nations ${dryRun ? 'parsed' : 'staged'}: ${nationsProcessed}.`);
 
-                if (tagName === 'NATION') {
-                    // NATION tag closed, process the collected nation data
-                    if (currentNation.NAME) { // Ensure it's a valid nation
-                        const nationName = currentNation.NAME;
-                        const flagCode = currentNation.FLAG;
-                        const flagUrl = flagCode ? `https://www.nationstates.net/images/flags/${flagCode}.jpg` : '';
-                        const region = currentNation.REGION || 'Unknown Region';
+        if (dryRun) {
+            return {
+                success: true,
+                message: `Dry run: parsed ${nationsProcessed} nations; nothing was written.`,
+                nationsProcessed,
+                bytesDownloaded,
+            };
+        }
 
-                        batch.push({ nationName, flagUrl, region });
+        // 3. Check the staged dump, then swap it in
+        const nationsStaged = await validateStagedNations(partial);
+        reportProgress('swapping');
+        const swap = await swapInStagedNations(parseStartedAt as Date, options.runId ?? null, partial);
+
+        return {
+            success: true,
+            message: partial
+                ? `Imported the first ${nationsStaged} nations from the dump; missing nations were not checked. `
+                    + `${swap.changesRecorded} region or flag changes recorded.`
+                : `Successfully processed ${nationsStaged} nations from daily dump; ${swap.nationsCeased} newly ceased, `
+                    + `${swap.nationsRemoved} removed, ${swap.changesRecorded} region or flag changes recorded.`,
+            nationsProcessed: nationsStaged,
+            bytesDownloaded,
+            ...swap,
+        };
 
-                        if (batch.length >= BATCH_SIZE) {
-                            await insertNationBatch(batch);
-                            nationsProcessed += batch.length;
-                            batch = []; // Clear batch after insertion
-                        }
-                    }
-                    currentNation = {}; // Reset for the next nation
-                }
-            });
+    } catch (error: any) {
+        console.error('Error processing daily nation dump (streaming):', error);
+        return {
+            success: false,
+            message: `Failed to process daily dump: ${error?.message || String(error)}`,
+            nationsProcessed,
+            bytesDownloaded,
+            error: error?.stack || error?.message || String(error),
+        };
+    } finally {
+        fs.unlink(tempFilePath, (err) => {
+            if (err && err.code !== 'ENOENT') console.error(`Error deleting temp file ${tempFilePath}:`, err);
+        });
+    }
+}
 
-            saxStream.on('end', async () => {
-                // Insert any remaining items in the batch
-                if (batch.length > 0) {
-                    await insertNationBatch(batch);
-                    nationsProcessed += batch.length;
-                }
-                resolve();
+/**
+ * Rejects a staged dump that is empty or much smaller than the last successful full import,
+ * which usually means NationStates served a truncated file. The live cache is left untouched.
+ * A partial import is only checked for being non-empty.
+ * @returns How many nations are staged.
+ */
+async function validateStagedNations(partial: boolean): Promise<number> {
+    const row = await db.get(
+        `SELECT (SELECT COUNT(*)::int FROM nation_cache_staging) AS staged,
+                (SELECT "nationsProcessed" FROM dump_runs WHERE status = 'succeeded' ORDER BY "finishedAt" DESC LIMIT 1) AS previous`
+    );
+    if (row.staged === 0) {
+        throw new Error('The dump contained no nations; the live cache was left unchanged.');
+    }
+    if (!partial && row.previous && row.staged < row.previous * DUMP_MIN_ROW_RATIO) {
+        throw new Error(
+            `The dump has only ${row.staged} nations, under ${Math.round(DUMP_MIN_ROW_RATIO * 100)}% of the ${row.previous} `
+            + 'in the last successful import; the live cache was left unchanged.'
+        );
+    }
+    return row.staged;
+}
+
+interface NationSwapResult {
+    nationsCeased: number;
+    nationsRemoved: number;
+    changesRecorded: number;
+}
+
+/**
+ * Replaces nation_cache with the staged dump in one transaction:
+ * records region and flag changes, upserts every staged nation, flags signers missing from the dump as ceased
+ * (keeping the date it was first noticed) and removes every other missing nation.
+ * A partial dump stops after the upsert, since nations missing from it may well still exist.
+ * Nations refreshed from the live API since `parseStartedAt` are newer than the dump and are left alone.
+ */
+async function swapInStagedNations(parseStartedAt: Date, runId: number | null, partial: boolean): Promise<NationSwapResult> {
+    return withTransaction(async (tx) => {
+        const changes = await tx.get(
+            `WITH recorded AS (
+                 INSERT INTO nation_cache_changes ("runId", "nationId", field, "oldValue", "newValue")
+                 SELECT $1, s."nationId", change.field, change."oldValue", change."newValue"
+                 FROM nation_cache_staging s
+                 JOIN nation_cache nc ON nc."nationId" = s."nationId"
+                 CROSS JOIN LATERAL (VALUES ('region', nc.region, s.region), ('flagUrl', nc."flagUrl", s."flagUrl"))
+                     AS change(field, "oldValue", "newValue")
+                 WHERE change."oldValue" IS DISTINCT FROM change."newValue" AND nc."lastUpdated" < $2
+                 RETURNING 1
+             )
+             SELECT COUNT(*)::int AS count FROM recorded`,
+            [runId, parseStartedAt]
+        );
+
+        await tx.run(
+            `INSERT INTO nation_cache (${NATION_CACHE_DUMP_COLUMNS}, "lastUpdated")
+             SELECT ${NATION_CACHE_DUMP_COLUMNS}, NOW() FROM nation_cache_staging
+             ON CONFLICT ("nationId") DO UPDATE SET ${NATION_CACHE_UPSERT_SET}
+             WHERE nation_cache."lastUpdated" < $1`,
+            [parseStartedAt]
+        );
+
+        if (partial) {
+            await tx.run('TRUNCATE nation_cache_staging');
+            return { nationsCeased: 0, nationsRemoved: 0, changesRecorded: changes.count };
+        }
+
+        const removed = await tx.get(
+            `WITH removed AS (
+                 DELETE FROM nation_cache nc
+                 WHERE nc."lastUpdated" < $1
+                   AND NOT EXISTS (SELECT 1 FROM nation_cache_staging s WHERE s."nationId" = nc."nationId")
+                   AND NOT EXISTS (SELECT 1 FROM signatures s WHERE s."nationId" = nc."nationId")
+                 RETURNING 1
+             )
+             SELECT COUNT(*)::int AS count FROM removed`,
+            [parseStartedAt]
+        );
+
+        // Signers stay cached so the letter can still show them, flagged for owners to decide whether they count
+        const ceased = await tx.get(
+            `WITH ceased AS (
+                 UPDATE nation_cache nc SET "ceasedAt" = NOW()
+                 WHERE nc."ceasedAt" IS NULL AND nc."lastUpdated" < $1
+                   AND NOT EXISTS (SELECT 1 FROM nation_cache_staging s WHERE s."nationId" = nc."nationId")
+                 RETURNING 1
+             )
+             SELECT COUNT(*)::int AS count FROM ceased`,
+            [parseStartedAt]
+        );
+
+        await tx.run(
+            `DELETE FROM nation_cache_changes WHERE "recordedAt" < NOW() - ($1 || ' days')::interval`,
+            [String(NATION_CHANGE_RETENTION_DAYS)]
+        );
+        await tx.run('TRUNCATE nation_cache_staging');
+
+        return { nationsCeased: ceased.count, nationsRemoved: removed.count, changesRecorded: changes.count };
+    });
+}
+
+// The nation_cache columns a dump or API record fills, in the order `nationBatchParams` supplies them
+const NATION_CACHE_DUMP_COLUMNS = `"nationId", "nationName", "flagUrl", region, "fullName", category, "waStatus",
+    "endorsementCount", population, influence, "firstLoginAt", "foundedAt"`;
+
+const NATION_CACHE_DUMP_UNNEST = `UNNEST($1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[],
+    $8::integer[], $9::integer[], $10::text[], $11::timestamptz[], $12::timestamptz[])`;
+
+const NATION_CACHE_UPSERT_SET = `
+      "nationName" = EXCLUDED."nationName",
+      "flagUrl" = EXCLUDED."flagUrl",
+      region = EXCLUDED.region,
+      "fullName" = EXCLUDED."fullName",
+      category = EXCLUDED.category,
+      "waStatus" = EXCLUDED."waStatus",
+      "endorsementCount" = EXCLUDED."endorsementCount",
+      population = EXCLUDED.population,
+      influence = EXCLUDED.influence,
+      "firstLoginAt" = EXCLUDED."firstLoginAt",
+      "foundedAt" = EXCLUDED."foundedAt",
+      "ceasedAt" = NULL,
+      "lastUpdated" = NOW()`;
+
+// Column arrays for NATION_CACHE_DUMP_UNNEST; parameterised UNNEST keeps large batches fast and safely escaped
+function nationBatchParams(batch: NationDumpRecord[]): QueryParam[] {
+    return [
+        batch.map(n => toNationId(n.nationName)),
+        batch.map(n => n.nationName),
+        batch.map(n => n.flagUrl),
+        batch.map(n => n.region),
+        batch.map(n => n.fullName),
+        batch.map(n => n.category),
+        batch.map(n => n.waStatus),
+        batch.map(n => n.endorsementCount),
+        batch.map(n => n.population),
+        batch.map(n => n.influence),
+        batch.map(n => n.firstLoginAt),
+        batch.map(n => n.foundedAt),
+    ];
+}
+
+// Adds a batch of dump nations to the staging table; a nation listed twice keeps its first entry
+async function stageNationBatch(batch: NationDumpRecord[]): Promise<void> {
+    if (batch.length === 0) return;
+    await db.run(
+        `INSERT INTO nation_cache_staging (${NATION_CACHE_DUMP_COLUMNS})
+         SELECT * FROM ${NATION_CACHE_DUMP_UNNEST}
+         ON CONFLICT ("nationId") DO NOTHING`,
+        nationBatchParams(batch)
+    );
+}
+
+// Upserts nations straight into the live cache, for single nations fetched from the API
+async function insertNationBatch(batch: NationDumpRecord[]): Promise<void> {
+    if (batch.length === 0) return;
+    await db.run(
+        `INSERT INTO nation_cache (${NATION_CACHE_DUMP_COLUMNS}, "lastUpdated")
+         SELECT *, NOW() FROM ${NATION_CACHE_DUMP_UNNEST}
+         ON CONFLICT ("nationId") DO UPDATE SET ${NATION_CACHE_UPSERT_SET}`,
+        nationBatchParams(batch)
+    );
+}
+
+// One <REGION> from the regions dump, reduced to the columns region_cache keeps
+interface RegionDumpRecord {
+    regionName: string;
+    delegateId: string | null;
+    founderId: string | null;
+    nationCount: number | null;
+    flagUrl: string;
+    delegateEndorsements: number | null;
+}
+
+const COLLECTED_REGION_TAGS = ['NAME', 'DELEGATE', 'FOUNDER', 'NUMNATIONS', 'FLAG', 'DELEGATEVOTES'] as const;
+
+type CollectedRegionTag = typeof COLLECTED_REGION_TAGS[number];
+
+// The dump writes "0" where a region has no delegate or founder
+function parseNationReference(value: string | undefined): string | null {
+    return value && value !== '0' ? toNationId(value) : null;
+}
+
+function toRegionDumpRecord(region: Partial<Record<CollectedRegionTag, string>>): RegionDumpRecord | null {
+    if (!region.NAME) return null;
+    const delegateId = parseNationReference(region.DELEGATE);
+    const delegateVotes = parseInteger(region.DELEGATEVOTES);
+    return {
+        regionName: region.NAME,
+        delegateId,
+        founderId: parseNationReference(region.FOUNDER),
+        nationCount: parseInteger(region.NUMNATIONS),
+        flagUrl: region.FLAG || '',
+        // DELEGATEVOTES counts the delegate's own vote on top of their endorsements
+        delegateEndorsements: delegateId && delegateVotes !== null ? Math.max(delegateVotes - 1, 0) : null,
+    };
+}
+
+export interface RegionDumpResult {
+    success: boolean;
+    message: string;
+    regionsProcessed?: number;
+    error?: string;
+}
+
+export interface ProcessRegionDumpOptions {
+    // A local .xml or .xml.gz file, or a URL, to import instead of the live dump
+    source?: string;
+}
+
+/**
+ * Downloads the daily regions dump (or reads `options.source`), upserts delegate, founder, size and flag
+ * for every region into region_cache and removes the regions it no longer lists.
+ * Much smaller than the nations dump, so it runs right after it as part of the same import.
+ */
+export async function processDailyRegionDump(options: ProcessRegionDumpOptions = {}): Promise<RegionDumpResult> {
+    console.log('Starting daily regions dump processing...');
+    const tempFilePath = path.join(os.tmpdir(), `regions_dump_${Date.now()}.xml.gz`);
+    let regionsProcessed = 0;
+    let batch: RegionDumpRecord[] = [];
+    const BATCH_SIZE = 500;
+
+    try {
+        // Database time, so it compares cleanly with the NOW() each upsert writes to "lastUpdated"
+        const { importStartedAt } = await db.get('SELECT NOW() AS "importStartedAt"');
+        const dumpFilePath = await fetchDumpSource(options.source ?? NS_DUMP_REGIONS_URL, tempFilePath, () => {});
+        const xmlReadStream = fs.createReadStream(dumpFilePath);
+
+        const saxStream = sax.createStream(true, {
+            trim: true,
+            normalize: true,
+            lowercase: false,
+        });
+
+        let currentRegion: Partial<Record<CollectedRegionTag, string>> = {};
+        let currentTag: string | null = null;
+        let regionDepth = 0; // 1 inside <REGION>, 2 inside one of its direct children, and so on
+        // Inserts run one after another; each batch is handed over before the next one starts filling
+        let pendingInserts: Promise<void> = Promise.resolve();
+        const flushBatch = () => {
+            const regions = batch;
+            batch = [];
+            pendingInserts = pendingInserts.then(async () => {
+                await insertRegionBatch(regions);
+                regionsProcessed += regions.length;
             });
+            // As with the nations dump, a failed insert stops the parse rather than waiting for the end of the file
+            pendingInserts.catch((error) => xmlReadStream.destroy(error));
+        };
+
+        saxStream.on('opentag', (node: sax.Tag) => {
+            if (node.name === 'REGION') {
+                currentRegion = {};
+                regionDepth = 1;
+            } else if (regionDepth > 0) {
+                regionDepth++;
+            }
+            currentTag = node.name;
         });
 
-        // Pipe streams: gzipped file -> gunzip -> sax parser
-        await pipeline(xmlReadStream, gunzip, saxStream);
-        await nationParsingPromise; // Wait for all nations to be processed by saxStream.on('end')
+        saxStream.on('text', (text: string) => {
+            // Officers and embassies nest tags of their own, so only direct children of <REGION> count
+            if (currentTag && regionDepth === 2 && (COLLECTED_REGION_TAGS as readonly string[]).includes(currentTag)) {
+                const tag = currentTag as CollectedRegionTag;
+                currentRegion[tag] = (currentRegion[tag] || '') + text;
+            }
+        });
 
-        console.log(`Finished streaming processing. Total nations processed: ${nationsProcessed}.`);
+        saxStream.on('closetag', (tagName: string) => {
+            currentTag = null;
+            if (regionDepth > 0) regionDepth--;
 
-        // 3. Clean up temporary file
-        fs.unlink(tempFilePath, (err) => {
-            if (err) console.error(`Error deleting temp file ${tempFilePath}:`, err);
-            else console.log(`Cleaned up temp file: ${tempFilePath}`);
+            if (tagName === 'REGION') {
+                const record = toRegionDumpRecord(currentRegion);
+                if (record) {
+                    batch.push(record);
+                    if (batch.length >= BATCH_SIZE) flushBatch();
+                }
+                currentRegion = {};
+            }
         });
 
-        return { success: true, message: `Successfully processed ${nationsProcessed} nations from daily dump.`, nationsProcessed };
+        const decompress = await isGzipFile(dumpFilePath) ? zlib.createGunzip() : new PassThrough();
+        await pipeline(xmlReadStream, decompress, saxSink(saxStream));
+        flushBatch();
+        await pendingInserts;
+
+        const regionsRemoved = await removeMissingRegions(importStartedAt, regionsProcessed);
 
+        console.log(`Finished regions dump processing. Total regions processed: ${regionsProcessed}, removed: ${regionsRemoved}.`);
+        return {
+            success: true,
+            message: `Successfully processed ${regionsProcessed} regions from daily dump and removed ${regionsRemoved} that no longer exist.`,
+            regionsProcessed,
+        };
     } catch (error: any) {
-        console.error('Error processing daily nation dump (streaming):', error);
-        // Clean up temp file even on error
-        if (fs.existsSync(tempFilePath)) {
-            fs.unlink(tempFilePath, (err) => {
-                if (err) console.error(`Error deleting temp file ${tempFilePath} after error:`, err);
-            });
-        }
-        return { success: false, message: `Failed to process daily dump: ${error?.message || String(error)}` };
+        console.error('Error processing daily region dump:', error);
+        return {
+            success: false,
+            message: `Failed to process regions dump: ${error?.message || String(error)}`,
+            regionsProcessed,
+            error: error?.stack || error?.message || String(error),
+        };
+    } finally {
+        fs.unlink(tempFilePath, (err) => {
+            if (err && err.code !== 'ENOENT') console.error(`Error deleting temp file ${tempFilePath}:`, err);
+        });
     }
 }
 
-// Helper function to insert a batch of nations
-async function insertNationBatch(batch: { nationName: string; flagUrl: string; region: string }[]): Promise<void> {
-    if (batch.length === 0) return;
-
-    // Use parameterized query with UNNEST for efficient batch insert/update in PostgreSQL
-    // This is much safer against SQL injection and correctly handles escaping.
-    const nationNames = batch.map(n => n.nationName);
-    const flagUrls = batch.map(n => n.flagUrl);
-    const regions = batch.map(n => n.region);
+/**
+ * Deletes regions the dump just imported did not contain, i.e. those not updated since `importStartedAt`.
+ * Like the nations swap, a dump that is empty or much smaller than the cache is rejected rather than trusted,
+ * since it usually means a truncated file; the regions it did contain stay updated.
+ * @returns How many regions were removed.
+ */
+async function removeMissingRegions(importStartedAt: Date, regionsProcessed: number): Promise<number> {
+    return withTransaction(async (tx) => {
+        const { cached } = await tx.get('SELECT COUNT(*)::int AS cached FROM region_cache');
+        if (regionsProcessed === 0 || regionsProcessed < cached * DUMP_MIN_ROW_RATIO) {
+            throw new Error(
+                `The dump has only ${regionsProcessed} regions, under ${Math.round(DUMP_MIN_ROW_RATIO * 100)}% of the ${cached} `
+                + 'cached; regions missing from it were kept.'
+            );
+        }
+        const removed = await tx.get(
+            `WITH removed AS (
+                 DELETE FROM region_cache WHERE "lastUpdated" < $1 RETURNING 1
+             )
+             SELECT COUNT(*)::int AS count FROM removed`,
+            [importStartedAt]
+        );
+        return removed.count;
+    });
+}
 
-    const sql = `
-    INSERT INTO nation_cache ("nationName", "flagUrl", region, "lastUpdated")
-    SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], NOW()::timestamptz[])
-    ON CONFLICT ("nationName") DO UPDATE SET
-      "flagUrl" = EXCLUDED."flagUrl",
-      region = EXCLUDED.region,
-      "lastUpdated" = NOW();
-  `;
+async function insertRegionBatch(batch: RegionDumpRecord[]): Promise<void> {
+    if (batch.length === 0) return;
 
-    // console.log(`Inserting/Updating batch of ${batch.length} nations...`); // Too noisy for large dumps
-    await db.run(sql, [nationNames, flagUrls, regions]);
-}
\ No newline at end of file
+    await db.run(
+        `INSERT INTO region_cache ("regionId", "regionName", "delegateId", "founderId", "nationCount", "flagUrl", "delegateEndorsements", "lastUpdated")
+         SELECT *, NOW() FROM UNNEST($1::text[], $2::text[], $3::text[], $4::text[], $5::integer[], $6::text[], $7::integer[])
+         ON CONFLICT ("regionId") DO UPDATE SET
+           "regionName" = EXCLUDED."regionName",
+           "delegateId" = EXCLUDED."delegateId",
+           "founderId" = EXCLUDED."founderId",
+           "nationCount" = EXCLUDED."nationCount",
+           "flagUrl" = EXCLUDED."flagUrl",
+           "delegateEndorsements" = EXCLUDED."delegateEndorsements",
+           "lastUpdated" = NOW()`,
+        [
+            batch.map(r => toNationId(r.regionName)), // Region names canonicalise the same way nation names do
+            batch.map(r => r.regionName),
+            batch.map(r => r.delegateId),
+            batch.map(r => r.founderId),
+            batch.map(r => r.nationCount),
+            batch.map(r => r.flagUrl),
+            batch.map(r => r.delegateEndorsements),
+        ]
+    );
+}
@@ -1,93 +1,60 @@
 // lib/nsRateLimiter.ts
+import { db, withTransaction } from './db';
 
-// NationStates Standard API Rate Limit: 50 requests per 30 seconds
-// This means one request every 30/50 = 0.6 seconds (600ms).
-// We'll set a slightly more conservative default to be safe.
-const DEFAULT_MIN_DELAY_MS = 700; // 0.7 seconds per request
-
-let lastRequestTime = 0; // Timestamp of the last successful request
-let nextAvailableTime = 0; // Earliest time the next request can be made
-let retryAfterMs = 0; // Value from NS API's Retry-After header
-
-const requestQueue: (() => void)[] = []; // Queue for pending requests
+// NationStates allows 50 requests per 30 seconds per client. Every instance shares one budget through Postgres,
+// and we stay a few requests under the limit so clock skew between instances cannot tip us over.
+const WINDOW_MS = 30 * 1000;
+const WINDOW_LIMIT = 45;
+// Slots in each window that only interactive requests may use, so background work cannot starve a signer
+const INTERACTIVE_RESERVE = 10;
+// Waits are re-checked at least this often, so a newly queued interactive request can overtake
+const MAX_WAIT_SLICE_MS = 1000;
+// How long to back off after a 429 that came without a usable Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 30 * 1000;
+const MAX_ATTEMPTS = 3;
+// Consecutive failures to reach the shared window, a slice apart, before queued requests are failed instead of kept waiting
+const MAX_SLOT_ERRORS = 5;
 
 /**
- * Executes a function after ensuring the NationStates API rate limit is respected.
- * If the rate limit is hit, it will queue the request and retry later based on Retry-After header.
- * @param apiCall A function that returns a Promise (e.g., your fetch call).
- * @returns A Promise that resolves with the result of apiCall.
+ * `interactive` requests have a user waiting on them (e.g. verification during signing) and always go first;
+ * `background` requests (e.g. cache fills) only use what interactive traffic leaves over.
  */
-export async function throttledNsFetch<T>(
-    apiCall: () => Promise<T>,
-    urlForLogging: string // For better logging
-): Promise<T> {
-    return new Promise((resolve, reject) => {
-        const enqueue = () => {
-            requestQueue.push(async () => {
-                const now = Date.now();
-                const requiredDelay = retryAfterMs > 0 ? retryAfterMs : DEFAULT_MIN_DELAY_MS;
-                const timeToWait = Math.max(0, nextAvailableTime - now, requiredDelay - (now - lastRequestTime));
-
-                if (timeToWait > 0) {
-                    console.log(`NS API Throttler: Waiting for ${timeToWait}ms before next call to ${urlForLogging.split('?')[0]}.`);
-                }
+export type NsRequestPriority = 'interactive' | 'background';
 
-                setTimeout(async () => {
-                    try {
-                        const result = await apiCall();
-                        lastRequestTime = Date.now();
-                        // Reset retryAfterMs if the call was successful
-                        retryAfterMs = 0;
-                        // Update nextAvailableTime for the next request in the queue
-                        nextAvailableTime = lastRequestTime + requiredDelay;
-                        resolve(result);
-                    } catch (error: any) {
-                        // Check for 429 status from error, or from a structured response
-                        const responseStatus = error?.response?.status; // If you wrap fetch and get the response object
-                        const retryHeader = error?.response?.headers?.get('Retry-After'); // If you can access headers from error
-
-                        if (responseStatus === 429 && retryHeader) {
-                            const parsedRetryAfter = parseInt(retryHeader, 10) * 1000; // NS API gives seconds
-                            retryAfterMs = parsedRetryAfter > 0 ? parsedRetryAfter : DEFAULT_MIN_DELAY_MS * 5; // Fallback if header is weird
-                            console.warn(`NS API Rate Limit hit! Retrying ${urlForLogging.split('?')[0]} after ${retryAfterMs}ms.`);
-                            // Re-enqueue the request to be retried after the new delay
-                            enqueue(); // Re-add self to queue
-                        } else {
-                            reject(error); // Reject for other errors
-                        }
-                    } finally {
-                        // Process the next item in the queue
-                        if (requestQueue.length > 0) {
-                            const nextRequest = requestQueue.shift();
-                            if (nextRequest) nextRequest();
-                        }
-                    }
-                }, timeToWait);
-            });
-        };
-
-        // If the queue is empty, start processing immediately
-        // Otherwise, it will be picked up by the finally block of the previous request
-        if (requestQueue.length === 0) {
-            enqueue();
-            const firstRequest = requestQueue.shift();
-            if (firstRequest) firstRequest();
-        } else {
-            enqueue(); // Just add to queue if already processing
-        }
-    });
+const PRIORITY_RANK: Record<NsRequestPriority, number> = {
+    interactive: 0,
+    background: 1,
+};
+
+export interface ThrottledFetchOptions {
+    priority?: NsRequestPriority;
 }
 
-// Function to reset the throttler state (useful for testing or if you need to clear state)
-export function resetNsThrottler() {
-    lastRequestTime = 0;
-    nextAvailableTime = 0;
-    retryAfterMs = 0;
-    // Clear the queue, but be careful as this will discard pending requests
-    requestQueue.length = 0; // Clears the array
-    console.log("NS API Throttler reset.");
+export interface NsQueueDepth {
+    interactive: number;
+    background: number;
 }
 
+export interface NsRateLimitStatus {
+    // Requests waiting on this instance only; other instances keep their own queues
+    queueDepth: NsQueueDepth;
+    // Shared across instances
+    requestsInWindow: number;
+    windowLimit: number;
+    blockedUntil: Date | null;
+}
+
+interface QueuedRequest {
+    priority: NsRequestPriority;
+    sequence: number;
+    start: () => void;
+    fail: (error: Error) => void;
+}
+
+const requestQueue: QueuedRequest[] = [];
+let nextSequence = 0;
+let pumping = false;
+
 // Helper to make fetch errors more informative with response
 export class FetchError extends Error {
     response: Response;
@@ -96,4 +63,204 @@ export class FetchError extends Error {
         this.name = "FetchError";
         this.response = response;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Raised for queued requests when the shared rate limit cannot be read, so they are never sent blind.
+ * Carries a synthetic 503 response, so callers that handle a `FetchError` handle this too.
+ */
+export class NsRateLimiterUnavailableError extends FetchError {
+    constructor() {
+        super('NationStates API rate limiter unavailable', new Response(null, { status: 503, statusText: 'Service Unavailable' }));
+        this.name = 'NsRateLimiterUnavailableError';
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseSeconds(value: string | null): number | null {
+    if (value === null) return null;
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Tries to take a slot in the shared sliding window for a request of the given priority.
+ * @returns 0 if a slot was taken, otherwise how many milliseconds to wait before trying again.
+ */
+async function tryAcquireSlot(priority: NsRequestPriority): Promise<number> {
+    return withTransaction(async (tx) => {
+        // Serialises slot accounting across instances
+        await tx.run(`SELECT pg_advisory_xact_lock(hashtext('ns_api_rate_limit'))`);
+        await tx.run(`DELETE FROM ns_api_requests WHERE "sentAt" < NOW() - ($1 || ' milliseconds')::interval`, [String(WINDOW_MS)]);
+
+        const state = await tx.get(
+            `SELECT (SELECT COUNT(*)::int FROM ns_api_requests) AS "requestsInWindow",
+                    (SELECT (EXTRACT(EPOCH FROM (MIN("sentAt") - NOW())) * 1000)::float8 + $1 FROM ns_api_requests) AS "oldestExpiresInMs",
+                    (SELECT (EXTRACT(EPOCH FROM ("blockedUntil" - NOW())) * 1000)::float8 FROM ns_api_rate_state WHERE id = 1) AS "blockedForMs"`,
+            [WINDOW_MS]
+        );
+
+        if (state.blockedForMs > 0) {
+            return state.blockedForMs;
+        }
+        const limit = priority === 'interactive' ? WINDOW_LIMIT : WINDOW_LIMIT - INTERACTIVE_RESERVE;
+        if (state.requestsInWindow >= limit) {
+            // Conservative for background requests: one expiry may not free enough slots, in which case they wait again
+            return Math.max(state.oldestExpiresInMs ?? WINDOW_MS, 1);
+        }
+
+        await tx.run('INSERT INTO ns_api_requests (priority) VALUES ($1)', [priority]);
+        return 0;
+    });
+}
+
+/**
+ * Stops every instance from sending until `waitMs` from now, keeping any longer block already in place.
+ */
+async function blockRequestsFor(waitMs: number): Promise<void> {
+    await db.run(
+        `UPDATE ns_api_rate_state
+         SET "blockedUntil" = GREATEST(COALESCE("blockedUntil", NOW()), NOW() + ($1 || ' milliseconds')::interval)
+         WHERE id = 1`,
+        [String(Math.ceil(waitMs))]
+    );
+}
+
+/**
+ * Applies NationStates' own view of our budget: a spent `RateLimit-Remaining` blocks until `RateLimit-Reset`,
+ * and a 429 blocks for its `Retry-After`.
+ */
+async function applyRateLimitHeaders(response: Response): Promise<void> {
+    if (response.status === 429) {
+        const retryAfter = parseSeconds(response.headers.get('Retry-After'));
+        await blockRequestsFor(retryAfter !== null ? retryAfter * 1000 : DEFAULT_RETRY_AFTER_MS);
+        return;
+    }
+
+    const remaining = parseSeconds(response.headers.get('RateLimit-Remaining'));
+    const reset = parseSeconds(response.headers.get('RateLimit-Reset'));
+    if (remaining !== null && remaining <= 0 && reset !== null) {
+        await blockRequestsFor(reset * 1000);
+    }
+}
+
+/**
+ * Hands out slots to queued requests in priority order, one at a time, for as long as the queue is non-empty.
+ * Requests are started as soon as they have a slot; their responses are not awaited here.
+ */
+async function pumpQueue(): Promise<void> {
+    if (pumping) return;
+    pumping = true;
+    let slotErrors = 0;
+    try {
+        while (requestQueue.length > 0) {
+            const next = requestQueue[0];
+            let waitMs: number;
+            try {
+                waitMs = await tryAcquireSlot(next.priority);
+                slotErrors = 0;
+            } catch (error) {
+                // Without the shared window we cannot know the budget; back off rather than risk a lockout
+                console.error('NS API Throttler: Error reserving a request slot:', error);
+                if (++slotErrors >= MAX_SLOT_ERRORS) {
+                    // Fail everyone waiting rather than hold their callers open indefinitely
+                    for (const request of requestQueue.splice(0)) {
+                        request.fail(new NsRateLimiterUnavailableError());
+                    }
+                    slotErrors = 0;
+                    continue;
+                }
+                waitMs = MAX_WAIT_SLICE_MS;
+            }
+
+            if (waitMs > 0) {
+                // Re-check in slices so a request queued meanwhile with a higher priority is served first
+                await sleep(Math.min(waitMs, MAX_WAIT_SLICE_MS));
+                continue;
+            }
+            // A higher-priority request may have been queued ahead of this one while the slot was being taken
+            requestQueue.splice(requestQueue.indexOf(next), 1);
+            next.start();
+        }
+    } finally {
+        pumping = false;
+    }
+}
+
+function enqueue(priority: NsRequestPriority, sequence: number, start: () => void, fail: (error: Error) => void): void {
+    requestQueue.push({ priority, sequence, start, fail });
+    requestQueue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence);
+    void pumpQueue();
+}
+
+/**
+ * Sends a NationStates API request once the shared rate limit allows it.
+ * A 429 is retried after the Retry-After it carries; any other non-2xx response rejects with a `FetchError`,
+ * as does a rate limit that cannot be read (`NsRateLimiterUnavailableError`).
+ * @param apiCall Performs the fetch; called once per attempt.
+ * @param urlForLogging The request URL, for log messages. The query string is left out of logs.
+ * @returns The successful response.
+ */
+export async function throttledNsFetch(
+    apiCall: () => Promise<Response>,
+    urlForLogging: string,
+    options: ThrottledFetchOptions = {}
+): Promise<Response> {
+    const priority = options.priority ?? 'interactive';
+    // Retries keep their original place in line
+    const sequence = nextSequence++;
+    const endpoint = urlForLogging.split('?')[0];
+
+    for (let attempt = 1; ; attempt++) {
+        const response = await new Promise<Response>((resolve, reject) => {
+            enqueue(priority, sequence, () => {
+                apiCall().then(resolve, reject);
+            }, reject);
+        });
+
+        try {
+            await applyRateLimitHeaders(response);
+        } catch (error) {
+            console.error('NS API Throttler: Error recording rate limit headers:', error);
+        }
+
+        if (response.ok) {
+            return response;
+        }
+        if (response.status === 429 && attempt < MAX_ATTEMPTS) {
+            console.warn(`NS API Rate Limit hit! Retrying ${endpoint} (attempt ${attempt + 1} of ${MAX_ATTEMPTS}).`);
+            continue;
+        }
+        throw new FetchError(`HTTP error! status: ${response.status}`, response);
+    }
+}
+
+/**
+ * @returns How many requests are waiting on this instance, by priority.
+ */
+export function getNsQueueDepth(): NsQueueDepth {
+    return {
+        interactive: requestQueue.filter((request) => request.priority === 'interactive').length,
+        background: requestQueue.filter((request) => request.priority === 'background').length,
+    };
+}
+
+/**
+ * Reports this instance's queue together with the shared window and any header-imposed block.
+ */
+export async function getNsRateLimitStatus(): Promise<NsRateLimitStatus> {
+    const row = await db.get(
+        `SELECT (SELECT COUNT(*)::int FROM ns_api_requests WHERE "sentAt" >= NOW() - ($1 || ' milliseconds')::interval) AS "requestsInWindow",
+                (SELECT "blockedUntil" FROM ns_api_rate_state WHERE id = 1 AND "blockedUntil" > NOW()) AS "blockedUntil"`,
+        [String(WINDOW_MS)]
+    );
+    return {
+        queueDepth: getNsQueueDepth(),
+        requestsInWindow: row?.requestsInWindow ?? 0,
+        windowLimit: WINDOW_LIMIT,
+        blockedUntil: row?.blockedUntil ?? null,
+    };
+}
@@ -0,0 +1,26 @@
+// lib/queryParams.ts
+// Helpers for reading Next.js API query values, which arrive as string | string[] | undefined.
+
+/**
+ * @returns The value if it is a single non-empty string (trimmed), otherwise undefined.
+ */
+export function singleParam(value: string | string[] | undefined): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * @returns undefined if the parameter is absent, null if it is present but not a valid date, otherwise the Date.
+ */
+export function dateParam(value: string | string[] | undefined): Date | undefined | null {
+    const raw = singleParam(value);
+    if (!raw) return undefined;
+    const date = new Date(raw);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Turns a search term into an `ILIKE ... ESCAPE '\'` pattern matching it anywhere, with its own `%`, `_` and `\` taken literally.
+ */
+export function containsPattern(term: string): string {
+    return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+}
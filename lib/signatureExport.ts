@@ -0,0 +1,89 @@
+// lib/signatureExport.ts
+import { AdminSignature } from './signatures';
+
+export type ExportFormat = 'csv' | 'json' | 'bbcode';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'bbcode'];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+    return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export interface ExportRecord {
+    id: number;
+    letter: string;
+    nation: string;
+    region: string;
+    flagUrl: string;
+    signedAt: string;
+    status: 'active' | 'revoked' | 'withdrawn';
+}
+
+const CSV_COLUMNS: (keyof ExportRecord)[] = ['id', 'letter', 'nation', 'region', 'flagUrl', 'signedAt', 'status'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    bbcode: 'text/plain; charset=utf-8',
+};
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    csv: 'csv',
+    json: 'json',
+    bbcode: 'txt',
+};
+
+export function exportFilename(format: ExportFormat, date: Date = new Date()): string {
+    return `signatures-${date.toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`;
+}
+
+export function toExportRecord(signature: AdminSignature): ExportRecord {
+    return {
+        id: signature.id,
+        letter: signature.letterSlug,
+        nation: signature.nationName,
+        region: signature.region,
+        flagUrl: signature.flagUrl,
+        signedAt: new Date(signature.signedAt).toISOString(),
+        status: signature.revokedAt ? 'revoked' : signature.withdrawnAt ? 'withdrawn' : 'active',
+    };
+}
+
+// Quote every field and neutralise leading formula characters so spreadsheets never evaluate nation names
+function csvField(value: string | number): string {
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
+// NationStates BBCode has no escaping, so strip the brackets that would break the surrounding tags
+function bbcodeText(value: string): string {
+    return value.replace(/[[\]]/g, '');
+}
+
+/**
+ * Incremental writers for each format. `header` and `footer` wrap the rows; `row` receives the row's index.
+ */
+export const EXPORT_WRITERS: Record<ExportFormat, {
+    header: () => string;
+    row: (record: ExportRecord, index: number) => string;
+    footer: () => string;
+}> = {
+    csv: {
+        header: () => `${CSV_COLUMNS.join(',')}\r\n`,
+        row: (record) => `${CSV_COLUMNS.map((column) => csvField(record[column])).join(',')}\r\n`,
+        footer: () => '',
+    },
+    json: {
+        header: () => '[\n',
+        row: (record, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(record)}`,
+        footer: () => '\n]\n',
+    },
+    bbcode: {
+        header: () => '[list=1]\n',
+        row: (record) => `[*][nation]${bbcodeText(record.nation)}[/nation] of [region]${bbcodeText(record.region)}[/region]\n`,
+        footer: () => '[/list]\n',
+    },
+};
@@ -0,0 +1,404 @@
+// lib/signatures.ts
+import { db, Db, NationCacheRow, QueryParam, SignatureRow } from './db';
+import type { AdminUser } from './auth';
+import { recordAuditEvent } from './audit';
+import { nationIdSql } from './nationId';
+import { containsPattern, dateParam, singleParam } from './queryParams';
+
+/**
+ * Moderation actions on a single signature:
+ * - `revoke` hides it from the public list and blocks the nation from re-signing.
+ * - `restore` makes a revoked signature public again.
+ * - `clear` keeps it revoked but lets the nation sign again, which reactivates the row.
+ */
+export type SignatureAction = 'revoke' | 'restore' | 'clear';
+
+export const SIGNATURE_ACTIONS: SignatureAction[] = ['revoke', 'restore', 'clear'];
+
+export function isSignatureAction(value: unknown): value is SignatureAction {
+    return typeof value === 'string' && (SIGNATURE_ACTIONS as string[]).includes(value);
+}
+
+export type SignatureActionResult =
+    | { ok: true; signature: SignatureRow }
+    | { ok: false; status: number; error: string };
+
+/**
+ * Applies a moderation action to one signature and records it in the audit log.
+ * Must run inside `withTransaction` so the change and its audit entry commit together.
+ */
+export async function applySignatureAction(
+    tx: Db,
+    admin: AdminUser,
+    id: number,
+    action: SignatureAction,
+    reason: string | null
+): Promise<SignatureActionResult> {
+    const signature: SignatureRow | undefined = await tx.get('SELECT * FROM signatures WHERE id = $1 FOR UPDATE', [id]);
+    if (!signature) {
+        return { ok: false, status: 404, error: `Signature ${id} not found.` };
+    }
+
+    let updated: SignatureRow;
+    if (action === 'revoke') {
+        if (!reason) {
+            return { ok: false, status: 400, error: 'A reason is required to revoke a signature.' };
+        }
+        if (signature.revokedAt) {
+            return { ok: false, status: 409, error: `Signature ${id} is already revoked.` };
+        }
+        updated = await tx.get(
+            `UPDATE signatures
+             SET "revokedAt" = NOW(), "revokedBy" = $1, "revocationReason" = $2, "resignAllowed" = FALSE
+             WHERE id = $3 RETURNING *`,
+            [admin.username, reason, id]
+        );
+    } else {
+        if (!signature.revokedAt) {
+            return { ok: false, status: 409, error: `Signature ${id} is not revoked.` };
+        }
+        if (action === 'restore') {
+            updated = await tx.get(
+                `UPDATE signatures
+                 SET "revokedAt" = NULL, "revokedBy" = NULL, "revocationReason" = NULL, "resignAllowed" = FALSE
+                 WHERE id = $1 RETURNING *`,
+                [id]
+            );
+        } else {
+            updated = await tx.get('UPDATE signatures SET "resignAllowed" = TRUE WHERE id = $1 RETURNING *', [id]);
+        }
+    }
+
+    await recordAuditEvent(tx, {
+        actor: admin,
+        action,
+        signatureId: signature.id,
+        nationName: signature.nationName,
+        snapshot: signature,
+        reason,
+    });
+
+    return { ok: true, signature: updated };
+}
+
+export type WithdrawResult =
+    | { ok: true; signature: SignatureRow }
+    | { ok: false; status: number; error: string };
+
+/**
+ * Marks a nation's active signature on one letter as withdrawn at the signer's own request and records it in the audit log,
+ * so the signature's history keeps it. The caller must already have verified that the request comes from the nation.
+ * Must run inside `withTransaction`.
+ */
+export async function withdrawSignature(tx: Db, letterId: number, nationId: string): Promise<WithdrawResult> {
+    const signature: SignatureRow | undefined = await tx.get(
+        'SELECT * FROM signatures WHERE "letterId" = $1 AND "nationId" = $2 AND "revokedAt" IS NULL AND "withdrawnAt" IS NULL FOR UPDATE',
+        [letterId, nationId]
+    );
+    if (!signature) {
+        return { ok: false, status: 404, error: 'This nation has no active signature on this letter to withdraw.' };
+    }
+
+    const updated: SignatureRow = await tx.get('UPDATE signatures SET "withdrawnAt" = NOW() WHERE id = $1 RETURNING *', [signature.id]);
+
+    await recordAuditEvent(tx, {
+        actor: { id: null, username: `nation:${nationId}` },
+        action: 'withdraw',
+        signatureId: signature.id,
+        nationName: signature.nationName,
+        snapshot: signature,
+        reason: null,
+    });
+
+    return { ok: true, signature: updated };
+}
+
+// A revoked signature counts as revoked even if it was also withdrawn
+export type SignatureStatus = 'active' | 'revoked' | 'withdrawn';
+
+export const SIGNATURE_STATUSES: SignatureStatus[] = ['active', 'revoked', 'withdrawn'];
+export type SignatureSortColumn = 'signedAt' | 'nationName' | 'region' | 'id';
+export type SortDirection = 'asc' | 'desc';
+
+export const SIGNATURE_SORT_COLUMNS: SignatureSortColumn[] = ['signedAt', 'nationName', 'region', 'id'];
+
+export interface SignatureFilters {
+    status: SignatureStatus;
+    // Every letter when unset
+    letterId?: number;
+    // Case-insensitive substring of the nation name or region
+    search?: string;
+    from?: Date;
+    to?: Date;
+}
+
+export interface SignaturePageOptions {
+    filters: SignatureFilters;
+    sort: SignatureSortColumn;
+    direction: SortDirection;
+    limit: number;
+    cursor?: string;
+    // Skip the COUNT query when the caller only walks pages (e.g. exports)
+    skipTotal?: boolean;
+}
+
+// Dump metadata exposed alongside each signature; all null until the nation appears in a dump import
+export type NationMetadata = Pick<NationCacheRow,
+    'fullName' | 'category' | 'waStatus' | 'endorsementCount' | 'population' | 'influence' | 'firstLoginAt' | 'foundedAt' | 'ceasedAt'>;
+
+// Whether the signer runs their region, from the regions dump
+export interface SignerRegionRoles {
+    isRegionDelegate: boolean;
+    isRegionFounder: boolean;
+    regionNationCount: number | null;
+}
+
+export interface AdminSignature extends SignatureRow, NationMetadata, SignerRegionRoles {
+    flagUrl: string;
+    region: string;
+    letterSlug: string;
+    letterTitle: string;
+}
+
+export interface SignaturePage {
+    signatures: AdminSignature[];
+    nextCursor: string | null;
+    total: number;
+}
+
+export const MAX_SIGNATURE_PAGE_SIZE = 200;
+
+export function isSignatureSortColumn(value: string): value is SignatureSortColumn {
+    return (SIGNATURE_SORT_COLUMNS as string[]).includes(value);
+}
+
+export interface ParsedSignatureQuery {
+    filters: SignatureFilters;
+    sort: SignatureSortColumn;
+    direction: SortDirection;
+}
+
+/**
+ * Reads the dashboard's filter and sort parameters (`status`, `letter`, `q`, `from`, `to`, `sort`, `dir`) from an API query.
+ * @returns The parsed query, or an error message suitable for a 400 response.
+ */
+export function parseSignatureQuery(
+    query: Partial<Record<string, string | string[]>>
+): ParsedSignatureQuery | { error: string } {
+    const status = singleParam(query.status) || 'active';
+    if (!(SIGNATURE_STATUSES as string[]).includes(status)) {
+        return { error: `status must be one of ${SIGNATURE_STATUSES.join(', ')}.` };
+    }
+    const letter = singleParam(query.letter);
+    const letterId = letter === undefined ? undefined : Number(letter);
+    if (letterId !== undefined && !Number.isInteger(letterId)) {
+        return { error: 'letter must be the integer ID of a letter.' };
+    }
+    const from = dateParam(query.from);
+    const to = dateParam(query.to);
+    if (from === null || to === null) {
+        return { error: 'from and to must be valid dates.' };
+    }
+    const sort = singleParam(query.sort) || 'signedAt';
+    if (!isSignatureSortColumn(sort)) {
+        return { error: `sort must be one of ${SIGNATURE_SORT_COLUMNS.join(', ')}.` };
+    }
+    const direction = singleParam(query.dir) || 'desc';
+    if (direction !== 'asc' && direction !== 'desc') {
+        return { error: 'dir must be "asc" or "desc".' };
+    }
+    return { filters: { status: status as SignatureStatus, letterId, search: singleParam(query.q), from, to }, sort, direction };
+}
+
+// A timestamptz as Postgres writes it with `::text` in the ISO date style, e.g. 2024-05-01 12:34:56.789+00
+const TIMESTAMP_TEXT = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?[+-]\d{2}(:\d{2}){0,2}$/;
+
+function isTimestampText(value: string): boolean {
+    const match = TIMESTAMP_TEXT.exec(value);
+    if (!match) return false;
+    const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return year >= 1000 && date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60;
+}
+
+function isIntegerText(value: string): boolean {
+    return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= 2147483647;
+}
+
+// Postgres text cannot hold NUL characters
+const isText = (value: string): boolean => !value.includes('\0');
+
+// Sort expressions, the type their cursor value is cast back to, and a check that a cursor's value will cast.
+// Text columns sort case-insensitively so "alpha" and "Alpha" stay together.
+const SORT_COLUMNS: Record<SignatureSortColumn, { expression: string; type: string; isValidKey: (value: string) => boolean }> = {
+    signedAt: { expression: 's."signedAt"', type: 'timestamptz', isValidKey: isTimestampText },
+    nationName: { expression: 'LOWER(s."nationName")', type: 'text', isValidKey: isText },
+    region: { expression: `LOWER(COALESCE(nc.region, 'Unknown Region'))`, type: 'text', isValidKey: isText },
+    id: { expression: 's.id', type: 'integer', isValidKey: isIntegerText },
+};
+
+// Shared by the public and admin lists, bulk actions and exports; aliases signatures as `s`,
+// the signed letter as `l`, nation_cache as `nc` and the signer's region_cache row as `rc`
+export const SIGNATURES_WITH_CACHE_FROM = `signatures s
+         JOIN letters l ON l.id = s."letterId"
+         LEFT JOIN nation_cache nc ON nc."nationId" = s."nationId"
+         LEFT JOIN region_cache rc ON rc."regionId" = ${nationIdSql('nc.region')}`;
+
+// Select list for the cache-backed fields of a signature, used with SIGNATURES_WITH_CACHE_FROM
+export const SIGNATURE_CACHE_COLUMNS = `COALESCE(nc."flagUrl", '') AS "flagUrl",
+                COALESCE(nc.region, 'Unknown Region') AS region,
+                nc."fullName", nc.category, nc."waStatus", nc."endorsementCount", nc.population, nc.influence,
+                nc."firstLoginAt", nc."foundedAt", nc."ceasedAt",
+                COALESCE(rc."delegateId" = s."nationId", FALSE) AS "isRegionDelegate",
+                COALESCE(rc."founderId" = s."nationId", FALSE) AS "isRegionFounder",
+                rc."nationCount" AS "regionNationCount"`;
+
+const STATUS_CONDITIONS: Record<SignatureStatus, string> = {
+    active: 's."revokedAt" IS NULL AND s."withdrawnAt" IS NULL',
+    revoked: 's."revokedAt" IS NOT NULL',
+    withdrawn: 's."revokedAt" IS NULL AND s."withdrawnAt" IS NOT NULL',
+};
+
+/**
+ * Builds a WHERE clause for the given filters, appending its values to `params`.
+ */
+export function buildSignatureWhereClause(filters: SignatureFilters, params: QueryParam[]): string {
+    const conditions = [STATUS_CONDITIONS[filters.status]];
+
+    if (filters.letterId !== undefined) {
+        params.push(filters.letterId);
+        conditions.push(`s."letterId" = $${params.length}`);
+    }
+    if (filters.search) {
+        params.push(containsPattern(filters.search));
+        conditions.push(`(s."nationName" ILIKE $${params.length} ESCAPE '\\' OR nc.region ILIKE $${params.length} ESCAPE '\\')`);
+    }
+    if (filters.from) {
+        params.push(filters.from);
+        conditions.push(`s."signedAt" >= $${params.length}`);
+    }
+    if (filters.to) {
+        params.push(filters.to);
+        conditions.push(`s."signedAt" <= $${params.length}`);
+    }
+
+    return `WHERE ${conditions.join(' AND ')}`;
+}
+
+// Cursors are opaque to clients: the last row's sort key (as text, to keep full timestamp precision) and id
+function encodeCursor(sortKey: string, id: number): string {
+    return Buffer.from(JSON.stringify([sortKey, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: SignatureSortColumn): [string, number] | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Array.isArray(decoded) && typeof decoded[0] === 'string' && SORT_COLUMNS[sort].isValidKey(decoded[0])
+            && Number.isInteger(decoded[1]) && isIntegerText(String(decoded[1]))) {
+            return [decoded[0], decoded[1]];
+        }
+    } catch {
+        // Fall through to the invalid-cursor result
+    }
+    return null;
+}
+
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Invalid pagination cursor.');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+/**
+ * Lists one page of signatures joined with their cached flag and region, using keyset pagination on (sort column, id).
+ * @throws InvalidCursorError if `cursor` was not produced by a previous call.
+ */
+export async function listSignaturesPage(options: SignaturePageOptions): Promise<SignaturePage> {
+    const { expression, type } = SORT_COLUMNS[options.sort];
+    const comparison = options.direction === 'asc' ? '>' : '<';
+    const orderDirection = options.direction === 'asc' ? 'ASC' : 'DESC';
+
+    const params: QueryParam[] = [];
+    const where = buildSignatureWhereClause(options.filters, params);
+
+    const countRow = options.skipTotal
+        ? null
+        : await db.get(`SELECT COUNT(*)::int AS total FROM ${SIGNATURES_WITH_CACHE_FROM} ${where}`, [...params]);
+
+    let pageWhere = where;
+    if (options.cursor) {
+        const decoded = decodeCursor(options.cursor, options.sort);
+        if (!decoded) throw new InvalidCursorError();
+        params.push(decoded[0], decoded[1]);
+        pageWhere += ` AND (${expression}, s.id) ${comparison} ($${params.length - 1}::${type}, $${params.length}::integer)`;
+    }
+
+    // Fetch one extra row to know whether another page exists
+    params.push(options.limit + 1);
+    const rows = await db.all(
+        `SELECT s.id, s."letterId", l.slug AS "letterSlug", l.title AS "letterTitle", s."letterVersion", s."nationId", s."nationName", s.checksum, s."signedAt", s."revokedAt", s."revokedBy", s."revocationReason", s."resignAllowed", s."withdrawnAt",
+                ${SIGNATURE_CACHE_COLUMNS},
+                (${expression})::text AS "sortKey"
+         FROM ${SIGNATURES_WITH_CACHE_FROM}
+         ${pageWhere}
+         ORDER BY ${expression} ${orderDirection}, s.id ${orderDirection}
+         LIMIT $${params.length}`,
+        params
+    );
+
+    const hasMore = rows.length > options.limit;
+    const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+        signatures: pageRows.map(({ sortKey: _sortKey, ...signature }) => signature as AdminSignature),
+        nextCursor: hasMore && last ? encodeCursor(last.sortKey, last.id) : null,
+        total: countRow?.total ?? 0,
+    };
+}
+
+export const MAX_BATCH_SIZE = 5000;
+
+export interface BatchItemResult {
+    id: number;
+    ok: boolean;
+    error?: string;
+}
+
+/**
+ * Resolves "select all matching" to concrete ids, capped at one more than `MAX_BATCH_SIZE` so callers can detect overflow.
+ */
+export async function findSignatureIdsMatching(tx: Db, filters: SignatureFilters): Promise<number[]> {
+    const params: QueryParam[] = [];
+    const where = buildSignatureWhereClause(filters, params);
+    params.push(MAX_BATCH_SIZE + 1);
+    const rows = await tx.all(
+        `SELECT s.id FROM ${SIGNATURES_WITH_CACHE_FROM} ${where} ORDER BY s.id LIMIT $${params.length}`,
+        params
+    );
+    return rows.map((row) => row.id);
+}
+
+/**
+ * Applies the same moderation action to many signatures inside the caller's transaction.
+ * Rows that cannot take the action (missing, already revoked, ...) are reported and skipped;
+ * any unexpected error propagates so the whole batch rolls back.
+ */
+export async function applySignatureActionBatch(
+    tx: Db,
+    admin: AdminUser,
+    ids: number[],
+    action: SignatureAction,
+    reason: string | null
+): Promise<BatchItemResult[]> {
+    // Lock rows in a consistent order so concurrent batches cannot deadlock
+    const sortedIds = Array.from(new Set(ids)).sort((a, b) => a - b);
+    const results: BatchItemResult[] = [];
+
+    for (const id of sortedIds) {
+        const result = await applySignatureAction(tx, admin, id, action, reason);
+        results.push(result.ok ? { id, ok: true } : { id, ok: false, error: result.error });
+    }
+    return results;
+}
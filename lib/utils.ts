@@ -34,4 +34,18 @@ export function formatTimeAgo(date: Date): string {
         month: 'long',
         day: 'numeric',
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Formats the time left until a moment as a countdown.
+ * @param milliseconds The time remaining; anything below zero counts as zero.
+ * @returns A formatted string (e.g., "2 days 03:04:05", "00:14:59").
+ */
+export function formatCountdown(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+    const days = Math.floor(totalSeconds / 86400);
+    const clock = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+        .map((part) => String(part).padStart(2, '0'))
+        .join(':');
+    return days > 0 ? `${days} day${days === 1 ? '' : 's'} ${clock}` : clock;
+}
@@ -0,0 +1,113 @@
+// lib/verificationTokens.ts
+import * as crypto from 'crypto';
+import { db, withTransaction } from './db';
+import { toNationId } from './nationId';
+
+// Long enough to log in to NationStates and copy the checksum, short enough that stray links go stale
+const TOKEN_TTL_MINUTES = 30;
+
+// Each sign or withdraw attempt needs one token; far more than this from one address is someone filling the table
+const MAX_TOKENS_PER_IP_PER_HOUR = 20;
+
+const NS_VERIFY_PAGE_URL = process.env.NS_VERIFY_PAGE_URL || 'https://www.nationstates.net/page=verify_login';
+
+export interface IssuedVerificationToken {
+    token: string;
+    verifyUrl: string;
+    expiresAt: Date;
+}
+
+export class VerificationTokenLimitError extends Error {
+    retryAfterSeconds: number;
+    constructor(retryAfterSeconds: number) {
+        super('Too many verification links requested from this address.');
+        this.name = 'VerificationTokenLimitError';
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+function getTokenSecret(): string {
+    if (!process.env.NS_VERIFY_TOKEN_SECRET) {
+        throw new Error('NS_VERIFY_TOKEN_SECRET is not set. Cannot issue NationStates verification tokens.');
+    }
+    return process.env.NS_VERIFY_TOKEN_SECRET;
+}
+
+// The token is bound to both the nation and a random nonce, so it is only valid for this one attempt
+function deriveToken(nationId: string, nonce: string): string {
+    return crypto.createHmac('sha256', getTokenSecret()).update(`${nationId}:${nonce}`).digest('hex');
+}
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues a single-use site token for one sign attempt by `nationName`, to be shown on the NationStates verify page.
+ * Expired tokens are pruned as a side effect.
+ * @param ip The requester's address, which may be issued at most `MAX_TOKENS_PER_IP_PER_HOUR` tokens an hour.
+ * @throws VerificationTokenLimitError if `ip` has used up its tokens for the hour.
+ */
+export async function issueVerificationToken(nationName: string, ip: string): Promise<IssuedVerificationToken> {
+    const nationId = toNationId(nationName);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const token = deriveToken(nationId, nonce);
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await db.run('DELETE FROM verification_tokens WHERE "expiresAt" < NOW() - INTERVAL \'1 day\'');
+    await withTransaction(async (tx) => {
+        // Serialises requests from one address, so a burst cannot all pass the count before any is inserted
+        await tx.run(`SELECT pg_advisory_xact_lock(hashtext('verification_token:' || $1))`, [ip]);
+        const recent = await tx.get(
+            `SELECT COUNT(*)::int AS count,
+                    CEIL(EXTRACT(EPOCH FROM (MIN("createdAt") + INTERVAL '1 hour' - NOW())))::int AS "retryAfterSeconds"
+             FROM verification_tokens
+             WHERE "ipAddress" = $1 AND "createdAt" > NOW() - INTERVAL '1 hour'`,
+            [ip]
+        );
+        if (recent.count >= MAX_TOKENS_PER_IP_PER_HOUR) {
+            throw new VerificationTokenLimitError(Math.max(recent.retryAfterSeconds, 1));
+        }
+        await tx.run(
+            'INSERT INTO verification_tokens ("nationId", nonce, "tokenHash", "expiresAt", "ipAddress") VALUES ($1, $2, $3, $4, $5)',
+            [nationId, nonce, hashToken(token), expiresAt, ip]
+        );
+    });
+
+    const verifyUrl = `${NS_VERIFY_PAGE_URL}?token=${encodeURIComponent(token)}`;
+    return { token, verifyUrl, expiresAt };
+}
+
+/**
+ * Checks that `token` was issued by us for `nationName`, has not expired and has not been used yet.
+ * @returns The token's row id, or null if the token is unknown, stale, spent, or issued for another nation.
+ */
+export async function findLiveVerificationToken(nationName: string, token: string): Promise<number | null> {
+    const nationId = toNationId(nationName);
+    const row: { id: number; nonce: string } | undefined = await db.get(
+        `SELECT id, nonce FROM verification_tokens
+         WHERE "tokenHash" = $1 AND "nationId" = $2 AND "usedAt" IS NULL AND "expiresAt" > NOW()`,
+        [hashToken(token), nationId]
+    );
+    if (!row) return null;
+
+    // Rows can only be minted with the secret, so a row inserted any other way fails here
+    const expected = Buffer.from(deriveToken(nationId, row.nonce));
+    const provided = Buffer.from(token);
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+        return null;
+    }
+    return row.id;
+}
+
+/**
+ * Marks a token as spent once NationStates has confirmed the checksum.
+ * @returns False if another request consumed it first.
+ */
+export async function consumeVerificationToken(id: number): Promise<boolean> {
+    const row = await db.get(
+        'UPDATE verification_tokens SET "usedAt" = NOW() WHERE id = $1 AND "usedAt" IS NULL RETURNING id',
+        [id]
+    );
+    return Boolean(row);
+}
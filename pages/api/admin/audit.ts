@@ -0,0 +1,35 @@
+// pages/api/admin/audit.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { listAuditEvents } from '../../../lib/audit';
+import { dateParam, singleParam } from '../../../lib/queryParams';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const admin = await requireAdmin(req, res, 'viewer');
+    if (!admin) return;
+
+    const from = dateParam(req.query.from);
+    const to = dateParam(req.query.to);
+    if (from === null || to === null) {
+        return res.status(400).json({ error: 'from and to must be valid dates.' });
+    }
+
+    try {
+        const entries = await listAuditEvents({
+            actor: singleParam(req.query.actor),
+            action: singleParam(req.query.action),
+            nation: singleParam(req.query.nation),
+            from,
+            to,
+            limit: Number(singleParam(req.query.limit)) || undefined,
+        });
+        return res.status(200).json(entries);
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -0,0 +1,50 @@
+// pages/api/admin/comments.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withTransaction } from '../../../lib/db';
+import { requireAdmin } from '../../../lib/auth';
+import { isCommentDecision, isCommentStatus, listComments, moderateComment } from '../../../lib/comments';
+import { singleParam } from '../../../lib/queryParams';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        const admin = await requireAdmin(req, res, 'viewer');
+        if (!admin) return;
+
+        const status = singleParam(req.query.status) || 'pending';
+        if (!isCommentStatus(status)) {
+            return res.status(400).json({ error: 'status must be one of pending, approved or rejected.' });
+        }
+
+        try {
+            return res.status(200).json(await listComments(status, Number(singleParam(req.query.limit)) || undefined));
+        } catch (error) {
+            console.error('Error fetching signature comments:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'PATCH') {
+        const admin = await requireAdmin(req, res, 'moderator');
+        if (!admin) return;
+
+        const { id, decision, reason } = req.body;
+        if (!Number.isInteger(id)) {
+            return res.status(400).json({ error: 'id must be the integer ID of a signature.' });
+        }
+        if (!isCommentDecision(decision)) {
+            return res.status(400).json({ error: 'decision must be approve or reject.' });
+        }
+        const trimmedReason = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+
+        try {
+            const result = await withTransaction((tx) => moderateComment(tx, admin, id, decision, trimmedReason));
+            if (!result.ok) {
+                return res.status(result.status).json({ error: result.error });
+            }
+            return res.status(200).json({ message: `Comment on signature ${id}: ${decision} applied.`, signature: result.signature });
+        } catch (error) {
+            console.error(`Error applying ${decision} to a signature comment:`, error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+}
@@ -0,0 +1,27 @@
+// pages/api/admin/dump-runs.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { listDumpRuns } from '../../../lib/dumpStatus';
+import { singleParam } from '../../../lib/queryParams';
+
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 200;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const admin = await requireAdmin(req, res, 'viewer');
+    if (!admin) return;
+
+    const limit = Math.min(Math.max(Number(singleParam(req.query.limit)) || DEFAULT_RUN_LIMIT, 1), MAX_RUN_LIMIT);
+
+    try {
+        const runs = await listDumpRuns(limit);
+        return res.status(200).json(runs);
+    } catch (error) {
+        console.error('Error fetching dump run history:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -0,0 +1,22 @@
+// pages/api/admin/dump-status.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { getCacheFreshness, getDumpImportStatus } from '../../../lib/dumpStatus';
+import { getNsRateLimitStatus } from '../../../lib/nsRateLimiter';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const admin = await requireAdmin(req, res, 'viewer');
+    if (!admin) return;
+
+    try {
+        const [status, cache, nsApi] = await Promise.all([getDumpImportStatus(), getCacheFreshness(), getNsRateLimitStatus()]);
+        return res.status(200).json({ status: status || null, cache, nsApi });
+    } catch (error) {
+        console.error('Error fetching dump import status:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
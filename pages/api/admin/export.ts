@@ -0,0 +1,76 @@
+// pages/api/admin/export.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { listSignaturesPage, parseSignatureQuery } from '../../../lib/signatures';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, EXPORT_WRITERS, exportFilename, isExportFormat, toExportRecord } from '../../../lib/signatureExport';
+import { singleParam } from '../../../lib/queryParams';
+
+// Rows fetched per database round trip while streaming
+const EXPORT_CHUNK_SIZE = 500;
+
+// Exports are streamed and may exceed Next.js's default 4MB response warning threshold
+export const config = {
+    api: {
+        responseLimit: false,
+    },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const admin = await requireAdmin(req, res, 'viewer');
+    if (!admin) return;
+
+    const format = singleParam(req.query.format) || 'csv';
+    if (!isExportFormat(format)) {
+        return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}.` });
+    }
+    const parsed = parseSignatureQuery(req.query);
+    if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+    }
+
+    const writer = EXPORT_WRITERS[format];
+    let headersSent = false;
+
+    try {
+        let cursor: string | undefined;
+        let index = 0;
+        do {
+            const page = await listSignaturesPage({
+                filters: parsed.filters,
+                sort: parsed.sort,
+                direction: parsed.direction,
+                limit: EXPORT_CHUNK_SIZE,
+                cursor,
+                skipTotal: true,
+            });
+
+            // Delay the headers until the first query succeeds so errors can still be reported as JSON
+            if (!headersSent) {
+                res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+                res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(format)}"`);
+                res.setHeader('Cache-Control', 'no-store');
+                res.write(writer.header());
+                headersSent = true;
+            }
+
+            for (const signature of page.signatures) {
+                res.write(writer.row(toExportRecord(signature), index++));
+            }
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+
+        res.write(writer.footer());
+        return res.end();
+    } catch (error) {
+        console.error('Error exporting signatures:', error);
+        if (!headersSent) {
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+        // Too late for a status code; cut the stream so the download is visibly incomplete
+        res.destroy(error instanceof Error ? error : undefined);
+    }
+}
@@ -0,0 +1,122 @@
+// pages/api/admin/letters.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withTransaction } from '../../../lib/db';
+import { requireAdmin } from '../../../lib/auth';
+import {
+    createLetter,
+    getLetterById,
+    getLetterBySlug,
+    LetterScheduleError,
+    listLetters,
+    parseLetterInput,
+    prepareReopening,
+    updateLetter,
+} from '../../../lib/letters';
+import { parseLetterBody, publishLetterVersion } from '../../../lib/letterVersions';
+
+// A letter's text is sent as `body` alongside its other fields; a changed text is published as a new version
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        const admin = await requireAdmin(req, res, 'viewer');
+        if (!admin) return;
+
+        try {
+            return res.status(200).json(await listLetters());
+        } catch (error) {
+            console.error('Error fetching letters for admin:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'POST') {
+        const admin = await requireAdmin(req, res, 'owner');
+        if (!admin) return;
+
+        const { body, ...fields } = req.body;
+        const parsed = parseLetterInput(fields, true);
+        if (!parsed.ok) {
+            return res.status(400).json({ error: parsed.error });
+        }
+        const parsedBody = body === undefined || body === '' ? null : parseLetterBody(body);
+        if (parsedBody && !parsedBody.ok) {
+            return res.status(400).json({ error: parsedBody.error });
+        }
+
+        try {
+            if (await getLetterBySlug(parsed.input.slug!)) {
+                return res.status(409).json({ error: `A letter at /letters/${parsed.input.slug} already exists.` });
+            }
+            const created = await withTransaction(async (tx) => {
+                const letter = await createLetter(tx, admin, parsed.input);
+                if (parsedBody) {
+                    await publishLetterVersion(tx, admin, letter.id, parsedBody.body);
+                }
+                return letter;
+            });
+            return res.status(201).json(created);
+        } catch (error) {
+            if (error instanceof LetterScheduleError) {
+                return res.status(400).json({ error: error.message });
+            }
+            console.error('Error creating letter:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'PATCH') {
+        const admin = await requireAdmin(req, res, 'owner');
+        if (!admin) return;
+
+        const { id, body, ...fields } = req.body;
+        if (!Number.isInteger(id)) {
+            return res.status(400).json({ error: 'id must be the integer ID of a letter.' });
+        }
+        if (Object.keys(fields).length === 0 && body === undefined) {
+            return res.status(400).json({ error: 'Nothing to update.' });
+        }
+        const parsed = parseLetterInput(fields, false);
+        if (!parsed.ok) {
+            return res.status(400).json({ error: parsed.error });
+        }
+        const parsedBody = body === undefined ? null : parseLetterBody(body);
+        if (parsedBody && !parsedBody.ok) {
+            return res.status(400).json({ error: parsedBody.error });
+        }
+
+        try {
+            const current = await getLetterById(id);
+            if (!current) {
+                return res.status(404).json({ error: `Letter ${id} not found.` });
+            }
+            let input = parsed.input;
+            if (current.status === 'closed' && input.status === 'open') {
+                const reopening = prepareReopening(input);
+                if (!reopening.ok) {
+                    return res.status(400).json({ error: reopening.error });
+                }
+                input = reopening.input;
+            }
+            if (input.slug) {
+                const existing = await getLetterBySlug(input.slug);
+                if (existing && existing.id !== id) {
+                    return res.status(409).json({ error: `A letter at /letters/${input.slug} already exists.` });
+                }
+            }
+            const updated = await withTransaction(async (tx) => {
+                const letter = await updateLetter(tx, admin, id, input);
+                if (letter && parsedBody) {
+                    await publishLetterVersion(tx, admin, letter.id, parsedBody.body);
+                }
+                return letter;
+            });
+            if (!updated) {
+                return res.status(404).json({ error: `Letter ${id} not found.` });
+            }
+            return res.status(200).json(updated);
+        } catch (error) {
+            if (error instanceof LetterScheduleError) {
+                return res.status(400).json({ error: error.message });
+            }
+            console.error('Error updating letter:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+}
@@ -0,0 +1,37 @@
+// pages/api/admin/lockouts.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+import { listLockoutEvents, unlockLogin } from '../../../lib/loginThrottle';
+
+const LOCKOUT_EVENT_LIMIT = 100;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Lockouts reveal usernames and IPs, so only owners see them
+    const admin = await requireAdmin(req, res, 'owner');
+    if (!admin) return;
+
+    if (req.method === 'GET') {
+        try {
+            const events = await listLockoutEvents(LOCKOUT_EVENT_LIMIT);
+            return res.status(200).json(events);
+        } catch (error) {
+            console.error('Error fetching login lockouts:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'DELETE') {
+        const { kind, key } = req.body;
+        if ((kind !== 'account' && kind !== 'ip') || !key || typeof key !== 'string') {
+            return res.status(400).json({ error: 'kind ("account" or "ip") and key are required to lift a lockout.' });
+        }
+        try {
+            await unlockLogin(kind, key);
+            console.log(`Admin ${admin.username} lifted the login lockout on ${kind} "${key}".`);
+            return res.status(200).json({ message: `Lockout on ${kind} "${key}" lifted.` });
+        } catch (error) {
+            console.error('Error lifting login lockout:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+}
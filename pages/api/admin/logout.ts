@@ -1,19 +1,22 @@
 // pages/api/admin/logout.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { serialize } from 'cookie';
+import { clearSessionCookie, revokeAdminSession } from '../../../lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
 
+    try {
+        // Revoke the session server-side so a copied cookie stops working too
+        await revokeAdminSession(req);
+    } catch (error) {
+        console.error('Error revoking admin session:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+
     // Clear the authentication cookie
-    res.setHeader('Set-Cookie', serialize('admin_logged_in', 'false', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV !== 'development',
-        maxAge: 0, // Expires immediately
-        path: '/',
-    }));
+    res.setHeader('Set-Cookie', clearSessionCookie());
 
     return res.status(200).json({ message: 'Logged out successfully!' });
-}
\ No newline at end of file
+}
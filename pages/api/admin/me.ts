@@ -0,0 +1,14 @@
+// pages/api/admin/me.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../lib/auth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const admin = await requireAdmin(req, res);
+    if (!admin) return;
+
+    return res.status(200).json(admin);
+}
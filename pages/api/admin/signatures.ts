@@ -1,46 +1,130 @@
 // pages/api/admin/signatures.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { db, SignatureRow } from '../../../lib/db'; // Import db and SignatureRow
-import { isAuthenticated } from '../../../lib/auth';
-import { getNationDisplayData } from '../../../lib/nsApi';
+import { withTransaction } from '../../../lib/db';
+import { requireAdmin } from '../../../lib/auth';
+import {
+    applySignatureAction,
+    applySignatureActionBatch,
+    findSignatureIdsMatching,
+    InvalidCursorError,
+    isSignatureAction,
+    listSignaturesPage,
+    MAX_BATCH_SIZE,
+    MAX_SIGNATURE_PAGE_SIZE,
+    parseSignatureQuery,
+} from '../../../lib/signatures';
+import { singleParam } from '../../../lib/queryParams';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-    if (!isAuthenticated(req)) {
-        return res.status(401).json({ error: 'Unauthorized' });
-    }
+const DEFAULT_PAGE_SIZE = 50;
+
+// Signature IDs are Postgres integers; anything larger would fail the query instead of matching nothing
+const MAX_SIGNATURE_ID = 2147483647;
 
+function isSignatureId(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_SIGNATURE_ID;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method === 'GET') {
+        const admin = await requireAdmin(req, res, 'viewer');
+        if (!admin) return;
+
+        const parsed = parseSignatureQuery(req.query);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+        const limit = Math.min(Math.max(Number(singleParam(req.query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_SIGNATURE_PAGE_SIZE);
+
         try {
-            const allSignatures: SignatureRow[] = await db.all('SELECT id, "nationName", checksum, "signedAt" FROM signatures ORDER BY "signedAt" DESC');
-
-            const enrichedSignatures = await Promise.all(
-                allSignatures.map(async (signature: SignatureRow) => { // Use SignatureRow here
-                    const displayData = await getNationDisplayData(signature.nationName);
-                    return {
-                        ...signature,
-                        flagUrl: displayData?.flagUrl || '',
-                        region: displayData?.region || 'Unknown Region',
-                    };
-                })
-            );
-
-            return res.status(200).json(enrichedSignatures);
+            const page = await listSignaturesPage({
+                filters: parsed.filters,
+                sort: parsed.sort,
+                direction: parsed.direction,
+                limit,
+                cursor: singleParam(req.query.cursor),
+            });
+            return res.status(200).json(page);
         } catch (error) {
+            if (error instanceof InvalidCursorError) {
+                return res.status(400).json({ error: error.message });
+            }
             console.error('Error fetching all signatures for admin:', error);
             return res.status(500).json({ error: 'Internal server error.' });
         }
-    } else if (req.method === 'DELETE') {
-        const { id } = req.body;
-        if (!id) {
-            return res.status(400).json({ error: 'ID is required to delete a signature.' });
+    } else if (req.method === 'PATCH') {
+        const admin = await requireAdmin(req, res, 'moderator');
+        if (!admin) return;
+
+        const { id, action, reason } = req.body;
+        if (!isSignatureId(id)) {
+            return res.status(400).json({ error: 'id must be the integer ID of a signature.' });
         }
+        if (!isSignatureAction(action)) {
+            return res.status(400).json({ error: 'action must be one of revoke, restore or clear.' });
+        }
+        const trimmedReason = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
         try {
-            await db.run('DELETE FROM signatures WHERE id = $1', [id]);
-            return res.status(200).json({ message: `Signature ${id} deleted.` });
+            const result = await withTransaction((tx) => applySignatureAction(tx, admin, id, action, trimmedReason));
+            if (!result.ok) {
+                return res.status(result.status).json({ error: result.error });
+            }
+            return res.status(200).json({ message: `Signature ${id}: ${action} applied.`, signature: result.signature });
         } catch (error) {
-            console.error('Error deleting signature:', error);
+            console.error(`Error applying ${action} to signature:`, error);
             return res.status(500).json({ error: 'Internal server error.' });
         }
+    } else if (req.method === 'POST') {
+        // Batch moderation: either explicit `ids` or every signature matching `filter` (the dashboard's current filters)
+        const admin = await requireAdmin(req, res, 'moderator');
+        if (!admin) return;
+
+        const { ids, filter, action, reason } = req.body;
+        if (!isSignatureAction(action)) {
+            return res.status(400).json({ error: 'action must be one of revoke, restore or clear.' });
+        }
+        const hasIds = Array.isArray(ids) && ids.length > 0;
+        const hasFilter = filter && typeof filter === 'object';
+        if (hasIds === Boolean(hasFilter)) {
+            return res.status(400).json({ error: 'Provide either a non-empty ids array or a filter, but not both.' });
+        }
+        if (hasIds && !ids.every(isSignatureId)) {
+            return res.status(400).json({ error: `ids must be integers from 1 to ${MAX_SIGNATURE_ID}.` });
+        }
+        if (hasIds && ids.length > MAX_BATCH_SIZE) {
+            return res.status(400).json({ error: `A batch may contain at most ${MAX_BATCH_SIZE} signatures.` });
+        }
+        const parsedFilter = hasFilter ? parseSignatureQuery(filter) : null;
+        if (parsedFilter && 'error' in parsedFilter) {
+            return res.status(400).json({ error: parsedFilter.error });
+        }
+        const trimmedReason = typeof reason === 'string' && reason.trim() ? reason.trim() : null;
+        if (action === 'revoke' && !trimmedReason) {
+            return res.status(400).json({ error: 'A reason is required to revoke signatures.' });
+        }
+
+        try {
+            const outcome = await withTransaction(async (tx) => {
+                const targetIds: number[] = parsedFilter ? await findSignatureIdsMatching(tx, parsedFilter.filters) : ids;
+                if (targetIds.length > MAX_BATCH_SIZE) {
+                    return null;
+                }
+                return applySignatureActionBatch(tx, admin, targetIds, action, trimmedReason);
+            });
+            if (!outcome) {
+                return res.status(400).json({ error: `More than ${MAX_BATCH_SIZE} signatures match; narrow the filter first.` });
+            }
+
+            const succeeded = outcome.filter((result) => result.ok).length;
+            return res.status(200).json({
+                message: `${action} applied to ${succeeded} of ${outcome.length} signatures.`,
+                succeeded,
+                failed: outcome.length - succeeded,
+                results: outcome,
+            });
+        } catch (error) {
+            console.error(`Error applying batch ${action} to signatures:`, error);
+            return res.status(500).json({ error: 'Internal server error. No signatures were changed.' });
+        }
     } else {
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
@@ -0,0 +1,128 @@
+// pages/api/admin/users.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { db, withTransaction, Db } from '../../../lib/db';
+import { hashAdminPassword, isAdminRole, requireAdmin, revokeAllSessionsForUser } from '../../../lib/auth';
+
+const MIN_PASSWORD_LENGTH = 10;
+
+// Refuses changes that would leave the deployment without anyone able to manage admins.
+// Locks every owner row, so two concurrent demotions or deletions cannot each see the other owner still in place.
+async function isLastOwner(tx: Db, id: number): Promise<boolean> {
+    const owners: { id: number }[] = await tx.all(`SELECT id FROM admin_users WHERE role = 'owner' FOR UPDATE`);
+    return owners.some((owner) => owner.id === id) && owners.length <= 1;
+}
+
+function isAdminId(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) > 0;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    // Only owners may see or manage admin accounts
+    const admin = await requireAdmin(req, res, 'owner');
+    if (!admin) return;
+
+    if (req.method === 'GET') {
+        try {
+            const users = await db.all('SELECT id, username, role, "createdAt" FROM admin_users ORDER BY "createdAt" ASC');
+            return res.status(200).json(users);
+        } catch (error) {
+            console.error('Error fetching admin users:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'POST') {
+        const { username: rawUsername, password, role } = req.body;
+        const username = typeof rawUsername === 'string' ? rawUsername.trim() : '';
+        if (!username || !password || typeof password !== 'string') {
+            return res.status(400).json({ error: 'Username and password are required.' });
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+        }
+        if (!isAdminRole(role)) {
+            return res.status(400).json({ error: 'Role must be one of viewer, moderator or owner.' });
+        }
+        try {
+            const existing = await db.get('SELECT id FROM admin_users WHERE username = $1', [username]);
+            if (existing) {
+                return res.status(409).json({ error: `An admin named "${username}" already exists.` });
+            }
+            const passwordHash = await hashAdminPassword(password);
+            const created = await db.get(
+                'INSERT INTO admin_users (username, "passwordHash", role) VALUES ($1, $2, $3) RETURNING id, username, role, "createdAt"',
+                [username, passwordHash, role]
+            );
+            return res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating admin user:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'PATCH') {
+        const { id, role, password } = req.body;
+        if (!isAdminId(id)) {
+            return res.status(400).json({ error: 'id must be the integer ID of an admin.' });
+        }
+        if (role !== undefined && !isAdminRole(role)) {
+            return res.status(400).json({ error: 'Role must be one of viewer, moderator or owner.' });
+        }
+        if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+        }
+        try {
+            const passwordHash = password ? await hashAdminPassword(password) : null;
+            const result = await withTransaction(async (tx) => {
+                const target = await tx.get('SELECT id, role FROM admin_users WHERE id = $1', [id]);
+                if (!target) {
+                    return { status: 404, error: `Admin ${id} not found.` };
+                }
+                if (role && role !== 'owner' && await isLastOwner(tx, target.id)) {
+                    return { status: 400, error: 'Cannot demote the last owner.' };
+                }
+                if (role) {
+                    await tx.run('UPDATE admin_users SET role = $1 WHERE id = $2', [role, target.id]);
+                }
+                if (passwordHash) {
+                    await tx.run('UPDATE admin_users SET "passwordHash" = $1 WHERE id = $2', [passwordHash, target.id]);
+                }
+                return { status: 200, roleChanged: Boolean(role && role !== target.role) };
+            });
+            if (result.error) {
+                return res.status(result.status).json({ error: result.error });
+            }
+            // Force a fresh login so the new role or password takes effect everywhere
+            if (result.roleChanged || passwordHash) {
+                await revokeAllSessionsForUser(id);
+            }
+            return res.status(200).json({ message: `Admin ${id} updated.` });
+        } catch (error) {
+            console.error('Error updating admin user:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else if (req.method === 'DELETE') {
+        const { id } = req.body;
+        if (!isAdminId(id)) {
+            return res.status(400).json({ error: 'id must be the integer ID of an admin.' });
+        }
+        try {
+            const result = await withTransaction(async (tx) => {
+                if (await isLastOwner(tx, id)) {
+                    return { status: 400, error: 'Cannot delete the last owner.' };
+                }
+                // Sessions are removed by ON DELETE CASCADE
+                const deleted = await tx.get('DELETE FROM admin_users WHERE id = $1 RETURNING id', [id]);
+                if (!deleted) {
+                    return { status: 404, error: `Admin ${id} not found.` };
+                }
+                return { status: 200 };
+            });
+            if (result.error) {
+                return res.status(result.status).json({ error: result.error });
+            }
+            return res.status(200).json({ message: `Admin ${id} deleted.` });
+        } catch (error) {
+            console.error('Error deleting admin user:', error);
+            return res.status(500).json({ error: 'Internal server error.' });
+        }
+    } else {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+}
@@ -0,0 +1,26 @@
+// pages/api/letters/[slug].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPublishedLetterBySlug, toPublicLetter } from '../../../lib/letters';
+import { singleParam } from '../../../lib/queryParams';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const slug = singleParam(req.query.slug);
+    if (!slug) {
+        return res.status(400).json({ error: 'A letter slug is required.' });
+    }
+
+    try {
+        const letter = await getPublishedLetterBySlug(slug);
+        if (!letter) {
+            return res.status(404).json({ error: 'Letter not found.' });
+        }
+        return res.status(200).json(toPublicLetter(letter));
+    } catch (error) {
+        console.error('Error fetching letter:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -0,0 +1,22 @@
+// pages/api/letters/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { LetterSummary, listLetters, toPublicLetter } from '../../../lib/letters';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    try {
+        const letters: LetterSummary[] = (await listLetters())
+            .filter((letter) => letter.status !== 'draft')
+            .map((letter) => ({
+                ...toPublicLetter(letter),
+                signatureCount: letter.signatureCount,
+            }));
+        return res.status(200).json(letters);
+    } catch (error) {
+        console.error('Error fetching letters:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -1,39 +1,164 @@
 // pages/api/sign.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { db } from '../../lib/db'; // Import db directly
-import { verifyNation } from '../../lib/nsApi';
+import { db, Db, LetterRow, withTransaction } from '../../lib/db'; // Import db directly
+import { refreshNationFromApi, verifyNation } from '../../lib/nsApi';
+import { NsRateLimiterUnavailableError } from '../../lib/nsRateLimiter';
+import { toNationId } from '../../lib/nationId';
+import { sanitizeComment } from '../../lib/comments';
+import { checkSigningWindow, getPublishedLetterBySlug, getSigningWindow } from '../../lib/letters';
+import { getCurrentLetterVersion } from '../../lib/letterVersions';
+
+type SignOutcome =
+    // `cached` says whether the nation was already in nation_cache
+    | { ok: true; message: string; cached: boolean }
+    | { ok: false; status: number; error: string; code?: string };
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
 
-    const { nationName, checksum } = req.body;
+    const { letter: letterSlug, nationName, checksum, token, comment } = req.body;
 
-    if (!nationName || !checksum) {
+    if (typeof letterSlug !== 'string' || !letterSlug) {
+        return res.status(400).json({ error: 'The letter to sign is required.' });
+    }
+    if (typeof nationName !== 'string' || !nationName.trim() || !checksum) {
         return res.status(400).json({ error: 'Nation name and checksum are required.' });
     }
+    if (typeof token !== 'string' || !token) {
+        return res.status(400).json({ error: 'Verification token is missing. Please open a fresh verification link and try again.' });
+    }
+
+    // Identity is the canonical ID; the display name prefers the dump's spelling over whatever was typed
+    const nationId = toNationId(nationName);
 
     try {
-        const isVerified = await verifyNation(nationName, checksum);
+        // Checked before verification so an unknown letter or a rejected comment does not use up the signer's verification link
+        const letter = await getPublishedLetterBySlug(letterSlug);
+        if (!letter) {
+            return res.status(404).json({ error: 'Letter not found.' });
+        }
+        const signingCheck = checkSigningWindow(getSigningWindow(letter), 'sign');
+        if (!signingCheck.ok) {
+            return res.status(signingCheck.status).json({ error: signingCheck.error, code: signingCheck.code });
+        }
+        const sanitized = sanitizeComment(comment, letter.bannedCommentWords);
+        if (!sanitized.ok) {
+            return res.status(400).json({ error: sanitized.error });
+        }
+
+        const isVerified = await verifyNation(nationName, checksum, token);
 
         if (!isVerified) {
-            return res.status(400).json({ error: 'NationStates verification failed. Please ensure the nation name and checksum are correct, and you are logged into NationStates as that nation.' });
+            return res.status(400).json({ error: 'NationStates verification failed. Please ensure the nation name and checksum are correct, that you are logged into NationStates as that nation, and that your verification link has not expired.' });
         }
 
-        // Check if nation already exists
-        const existingSignature = await db.get('SELECT id FROM signatures WHERE "nationName" = $1', [nationName]); // Use $1 for pg parameters
+        // Written in one transaction that holds the letter row, so the letter cannot close between the second window check and the write
+        const outcome = await withTransaction(async (tx): Promise<SignOutcome> => {
+            const lockedLetter: LetterRow = await tx.get('SELECT * FROM letters WHERE id = $1 FOR SHARE', [letter.id]);
+            // Checked again: verification takes a round-trip to NationStates, during which the letter may have closed.
+            // Against the database's NOW(), which is also the "signedAt" written below, so the frozen list agrees with this check.
+            const { now } = await tx.get('SELECT NOW() AS now');
+            const windowCheck = checkSigningWindow(getSigningWindow(lockedLetter, now), 'sign');
+            if (!windowCheck.ok) {
+                return windowCheck;
+            }
 
-        if (existingSignature) {
-            await db.run('UPDATE signatures SET checksum = $1, "signedAt" = NOW() WHERE "nationName" = $2', [checksum, nationName]);
-            return res.status(200).json({ message: 'You have already signed the letter. Your signature has been re-recorded with the current timestamp.' });
-        } else {
-            await db.run('INSERT INTO signatures ("nationName", checksum) VALUES ($1, $2)', [nationName, checksum]); // No need to provide signedAt if default is NOW()
-            return res.status(200).json({ message: 'Thank you for signing the letter! Your signature has been added.' });
+            // Check if nation already signed this letter
+            const existingSignature = await tx.get(
+                'SELECT id, "revokedAt", "resignAllowed", "withdrawnAt" FROM signatures WHERE "letterId" = $1 AND "nationId" = $2',
+                [letter.id, nationId]
+            );
+            const cachedNation = await tx.get('SELECT "nationName" FROM nation_cache WHERE "nationId" = $1', [nationId]);
+            const displayName: string = cachedNation?.nationName || nationName.trim();
+            // Every way of signing records the text being signed now, so the letter page can tell if it has changed since
+            const letterVersion = (await getCurrentLetterVersion(letter.id, tx))?.version ?? null;
+
+            if (existingSignature?.revokedAt) {
+                if (!existingSignature.resignAllowed) {
+                    return { ok: false, status: 403, error: 'Your signature was revoked by a moderator and cannot be re-added. Please contact the organizers if you believe this is a mistake.' };
+                }
+                // A moderator cleared the revocation, so this signature becomes public again
+                await tx.run(
+                    `UPDATE signatures
+                     SET "nationName" = $1, checksum = $2, "signedAt" = NOW(), "revokedAt" = NULL, "revokedBy" = NULL, "revocationReason" = NULL, "resignAllowed" = FALSE,
+                         "withdrawnAt" = NULL, "letterVersion" = $3
+                     WHERE id = $4`,
+                    [displayName, checksum, letterVersion, existingSignature.id]
+                );
+                await saveComment(tx, existingSignature.id, sanitized.comment);
+                return { ok: true, cached: Boolean(cachedNation), message: 'Thank you for signing the letter! Your signature has been restored.' };
+            }
+            if (existingSignature?.withdrawnAt) {
+                // The withdrawal stays in the audit log; signing again simply makes the signature public once more
+                await tx.run(
+                    'UPDATE signatures SET "nationName" = $1, checksum = $2, "signedAt" = NOW(), "withdrawnAt" = NULL, "letterVersion" = $3 WHERE id = $4',
+                    [displayName, checksum, letterVersion, existingSignature.id]
+                );
+                await saveComment(tx, existingSignature.id, sanitized.comment);
+                return { ok: true, cached: Boolean(cachedNation), message: 'Thank you for signing the letter again! Your signature has been added back.' };
+            }
+            if (existingSignature) {
+                await tx.run(
+                    'UPDATE signatures SET "nationName" = $1, checksum = $2, "signedAt" = NOW(), "letterVersion" = $3 WHERE id = $4',
+                    [displayName, checksum, letterVersion, existingSignature.id]
+                );
+                await saveComment(tx, existingSignature.id, sanitized.comment);
+                return { ok: true, cached: Boolean(cachedNation), message: 'You have already signed the letter. Your signature has been re-recorded with the current timestamp.' };
+            }
+            const inserted = await tx.get(
+                'INSERT INTO signatures ("letterId", "letterVersion", "nationId", "nationName", checksum) VALUES ($1, $2, $3, $4, $5) RETURNING id',
+                [letter.id, letterVersion, nationId, displayName, checksum]
+            ); // No need to provide signedAt if default is NOW()
+            await saveComment(tx, inserted.id, sanitized.comment);
+            return { ok: true, cached: Boolean(cachedNation), message: 'Thank you for signing the letter! Your signature has been added.' };
+        });
+        if (!outcome.ok) {
+            return res.status(outcome.status).json(outcome.code ? { error: outcome.error, code: outcome.code } : { error: outcome.error });
+        }
+        let message = outcome.message;
+
+        if (!outcome.cached) {
+            // Not in the dump yet (e.g. a brand-new nation): fetch it live. Awaited, since serverless hosts may freeze
+            // or drop work left running after the response; a failure only leaves the nation uncached, so it is logged, not reported.
+            try {
+                if (await refreshNationFromApi(nationName)) {
+                    // Adopt NationStates' spelling of the name over what was typed
+                    await db.run(
+                        `UPDATE signatures s SET "nationName" = nc."nationName"
+                         FROM nation_cache nc WHERE nc."nationId" = s."nationId" AND s."nationId" = $1`,
+                        [nationId]
+                    );
+                }
+            } catch (error) {
+                console.error(`Error updating ${nationName} from the live NationStates API:`, error);
+            }
         }
 
+        if (sanitized.comment) {
+            message += ' Your comment will appear once a moderator has approved it.';
+        }
+        return res.status(200).json({ message });
+
     } catch (error) {
+        if (error instanceof NsRateLimiterUnavailableError) {
+            return res.status(503).json({ error: 'NationStates verification is temporarily unavailable. Please try again in a few minutes.' });
+        }
         console.error('Error processing signature:', error);
         return res.status(500).json({ error: 'Internal server error.' });
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Stores a new comment for moderation. Signing again without a comment keeps the one already there.
+ */
+async function saveComment(tx: Db, signatureId: number, comment: string | null): Promise<void> {
+    if (!comment) return;
+    await tx.run(
+        `UPDATE signatures
+         SET comment = $1, "commentStatus" = 'pending', "commentedAt" = NOW(), "commentModeratedAt" = NULL, "commentModeratedBy" = NULL
+         WHERE id = $2`,
+        [comment, signatureId]
+    );
+}
@@ -1,31 +1,45 @@
 // pages/api/signatures.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { db, SignatureRow } from '../../lib/db';
-import { getNationDisplayData } from '../../lib/nsApi';
+import { db } from '../../lib/db';
+import { getPublishedLetterBySlug, getSigningWindow } from '../../lib/letters';
+import { singleParam } from '../../lib/queryParams';
+import { SIGNATURE_CACHE_COLUMNS, SIGNATURES_WITH_CACHE_FROM } from '../../lib/signatures';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'GET') {
         return res.status(405).json({ error: 'Method Not Allowed' });
     }
 
+    const slug = singleParam(req.query.letter);
+    if (!slug) {
+        return res.status(400).json({ error: 'letter is required.' });
+    }
+
     try {
-        // Change ASC to DESC here for most recent first
-        const allSignatures: SignatureRow[] = await db.all('SELECT id, "nationName", "signedAt" FROM signatures ORDER BY "signedAt" DESC');
+        const letter = await getPublishedLetterBySlug(slug);
+        if (!letter) {
+            return res.status(404).json({ error: 'Letter not found.' });
+        }
 
-        const enrichedSignatures = await Promise.all(
-            allSignatures.map(async (signature: SignatureRow) => {
-                const displayData = await getNationDisplayData(signature.nationName);
-                return {
-                    ...signature,
-                    flagUrl: displayData?.flagUrl || '',
-                    region: displayData?.region || 'Unknown Region',
-                };
-            })
+        // Most recent first; cache fields come from the same query instead of a lookup per signature.
+        // Ceased signers stay listed either way; "counted" says whether they still count towards the total.
+        // Comments are only published once a moderator has approved them.
+        // Once the letter closes its list is frozen, leaving out anything signed after the close time.
+        const signing = getSigningWindow(letter);
+        const signatures = await db.all(
+            `SELECT s.id, s."nationName", s."signedAt", s."letterVersion",
+                    CASE WHEN s."commentStatus" = 'approved' THEN s.comment END AS comment,
+                    ${SIGNATURE_CACHE_COLUMNS},
+                    (nc."ceasedAt" IS NULL OR $2) AS counted
+             FROM ${SIGNATURES_WITH_CACHE_FROM}
+             WHERE s."letterId" = $1 AND s."revokedAt" IS NULL AND s."withdrawnAt" IS NULL AND ($3::timestamptz IS NULL OR s."signedAt" <= $3)
+             ORDER BY s."signedAt" DESC`,
+            [letter.id, letter.countCeasedSigners, signing.state === 'closed' ? signing.closedAt : null]
         );
 
-        return res.status(200).json(enrichedSignatures);
+        return res.status(200).json(signatures);
     } catch (error) {
         console.error('Error fetching signatures with display data:', error);
         return res.status(500).json({ error: 'Internal server error.' });
     }
-}
\ No newline at end of file
+}
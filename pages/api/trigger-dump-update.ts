@@ -1,20 +1,34 @@
 // pages/api/trigger-dump-update.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { processDailyNationDump } from '../../lib/nsApi'; // Import the new function
+import { hasDumpTriggerSecret, requireAdmin } from '../../lib/auth';
+import { runNationDumpImport } from '../../lib/dumpStatus';
 
-// IMPORTANT: SECURE THIS ENDPOINT IN PRODUCTION!
-// You should add a secret key here to prevent unauthorized calls.
-// E.g., check req.headers['x-api-key'] against an environment variable.
-// const AUTH_SECRET = process.env.DUMP_TRIGGER_SECRET;
+// Downloading and parsing the full dump takes a while; allow the longest duration the platform permits
+export const config = {
+    maxDuration: 300,
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== 'POST') { // Recommend POST or a specific HTTP method for tasks
         return res.status(405).json({ message: 'Method Not Allowed' });
     }
 
+    // Either the cron job's shared secret or a logged-in owner may start an import
+    let startedBy = 'cron';
+    if (!hasDumpTriggerSecret(req)) {
+        const admin = await requireAdmin(req, res, 'owner');
+        if (!admin) return;
+        startedBy = admin.username;
+    }
 
     try {
-        const result = await processDailyNationDump();
+        const result = await runNationDumpImport(startedBy);
+        if (!result.started) {
+            return res.status(409).json({
+                message: `A nation dump import is already running (started by ${result.status.startedBy || 'unknown'}).`,
+                status: result.status,
+            });
+        }
         if (result.success) {
             return res.status(200).json({ message: result.message, nationsProcessed: result.nationsProcessed });
         } else {
@@ -24,4 +38,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         console.error('Error in trigger-dump-update API route:', error);
         return res.status(500).json({ message: `Internal Server Error: ${error.message}` });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+// pages/api/unsign.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { db, withTransaction } from '../../lib/db';
+import { verifyNation } from '../../lib/nsApi';
+import { NsRateLimiterUnavailableError } from '../../lib/nsRateLimiter';
+import { toNationId } from '../../lib/nationId';
+import { withdrawSignature } from '../../lib/signatures';
+import { checkSigningWindow, getPublishedLetterBySlug, getSigningWindow } from '../../lib/letters';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const { letter: letterSlug, nationName, checksum, token } = req.body;
+
+    if (typeof letterSlug !== 'string' || !letterSlug) {
+        return res.status(400).json({ error: 'The letter to withdraw from is required.' });
+    }
+    if (typeof nationName !== 'string' || !nationName.trim() || !checksum) {
+        return res.status(400).json({ error: 'Nation name and checksum are required.' });
+    }
+    if (typeof token !== 'string' || !token) {
+        return res.status(400).json({ error: 'Verification token is missing. Please open a fresh verification link and try again.' });
+    }
+
+    const nationId = toNationId(nationName);
+
+    try {
+        // Checked before verification so a nation with nothing to withdraw does not use up its verification link
+        const letter = await getPublishedLetterBySlug(letterSlug);
+        if (!letter) {
+            return res.status(404).json({ error: 'Letter not found.' });
+        }
+        const signingCheck = checkSigningWindow(getSigningWindow(letter), 'withdraw');
+        if (!signingCheck.ok) {
+            return res.status(signingCheck.status).json({ error: signingCheck.error, code: signingCheck.code });
+        }
+        const activeSignature = await db.get(
+            'SELECT id FROM signatures WHERE "letterId" = $1 AND "nationId" = $2 AND "revokedAt" IS NULL AND "withdrawnAt" IS NULL',
+            [letter.id, nationId]
+        );
+        if (!activeSignature) {
+            return res.status(404).json({ error: 'This nation has no active signature on this letter to withdraw.' });
+        }
+
+        const isVerified = await verifyNation(nationName, checksum, token);
+        if (!isVerified) {
+            return res.status(400).json({ error: 'NationStates verification failed. Please ensure the nation name and checksum are correct, that you are logged into NationStates as that nation, and that your verification link has not expired.' });
+        }
+
+        const result = await withTransaction((tx) => withdrawSignature(tx, letter.id, nationId));
+        if (!result.ok) {
+            return res.status(result.status).json({ error: result.error });
+        }
+        return res.status(200).json({ message: 'Your signature has been withdrawn. You can sign the letter again at any time.' });
+    } catch (error) {
+        if (error instanceof NsRateLimiterUnavailableError) {
+            return res.status(503).json({ error: 'NationStates verification is temporarily unavailable. Please try again in a few minutes.' });
+        }
+        console.error('Error withdrawing signature:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -0,0 +1,29 @@
+// pages/api/verification-token.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { issueVerificationToken, VerificationTokenLimitError } from '../../lib/verificationTokens';
+import { getClientIp } from '../../lib/loginThrottle';
+
+const MAX_NATION_NAME_LENGTH = 40; // NationStates caps nation names well below this
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    const { nationName } = req.body;
+    if (typeof nationName !== 'string' || !nationName.trim() || nationName.trim().length > MAX_NATION_NAME_LENGTH) {
+        return res.status(400).json({ error: 'A valid nation name is required.' });
+    }
+
+    try {
+        const issued = await issueVerificationToken(nationName, getClientIp(req));
+        return res.status(200).json(issued);
+    } catch (error) {
+        if (error instanceof VerificationTokenLimitError) {
+            res.setHeader('Retry-After', String(error.retryAfterSeconds));
+            return res.status(429).json({ error: 'Too many verification links requested. Please try again later.' });
+        }
+        console.error('Error issuing verification token:', error);
+        return res.status(500).json({ error: 'Internal server error.' });
+    }
+}
@@ -0,0 +1,142 @@
+// scripts/importNationDump.ts
+// Imports a nations dump into nation_cache from a local file or a URL, with the same streaming parser as the daily import:
+//   npm run import-dump -- <path-or-url> [--regions <path-or-url>] [--limit <count>] [--dry-run]
+// Reads POSTGRES_URL and the other settings from .env.local or .env, like `next dev` does; a dry run needs no database.
+import { parseArgs } from 'util';
+import * as dotenv from 'dotenv';
+import type { DumpProgress, DumpResult } from '../lib/nsApi';
+
+const USAGE = `Usage: npm run import-dump -- <path-or-url> [options]
+
+Imports a NationStates nations dump (.xml.gz or .xml) into nation_cache.
+
+Options:
+  --regions <path-or-url>  Also import this regions dump into region_cache
+  --limit <count>          Only import the first <count> nations; nations missing from the dump are left alone
+  --dry-run                Parse and count the dump without writing to the database
+  -h, --help               Show this message`;
+
+// Progress is printed at most this often when stderr is not a terminal, e.g. in CI logs
+const LOG_PROGRESS_INTERVAL_MS = 5000;
+
+function formatMegabytes(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeProgress(progress: DumpProgress): string {
+    if (progress.phase === 'downloading') {
+        const total = progress.totalBytes ? ` of ${formatMegabytes(progress.totalBytes)}` : '';
+        return `Downloading: ${formatMegabytes(progress.bytesDownloaded)}${total}`;
+    }
+    if (progress.phase === 'parsing') {
+        return `Parsing: ${progress.nationsProcessed.toLocaleString()} nations`;
+    }
+    if (progress.phase === 'swapping') {
+        return `Swapping ${progress.nationsProcessed.toLocaleString()} nations into the live cache`;
+    }
+    return 'Importing the regions dump';
+}
+
+function createProgressPrinter(): { print: (progress: DumpProgress) => void; done: () => void } {
+    const interactive = Boolean(process.stderr.isTTY);
+    let lastLine = '';
+    let lastPhase: DumpProgress['phase'] | null = null;
+    let lastPrintedAt = 0;
+    return {
+        print(progress) {
+            const line = describeProgress(progress);
+            if (line === lastLine) return;
+            lastLine = line;
+            if (interactive) {
+                // Overwrite the previous progress line in place
+                process.stderr.write(`\r\x1b[K${line}`);
+                return;
+            }
+            const now = Date.now();
+            if (progress.phase !== lastPhase || now - lastPrintedAt >= LOG_PROGRESS_INTERVAL_MS) {
+                process.stderr.write(`${line}\n`);
+                lastPhase = progress.phase;
+                lastPrintedAt = now;
+            }
+        },
+        done() {
+            if (interactive && lastLine) process.stderr.write('\n');
+        },
+    };
+}
+
+function printResult(result: DumpResult): void {
+    const log = result.success ? console.log : console.error;
+    log(result.message);
+    if (!result.success && result.error) console.error(result.error);
+}
+
+async function main(): Promise<number> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            regions: { type: 'string' },
+            limit: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) {
+        console.error(USAGE);
+        return 1;
+    }
+    const [source] = positionals;
+    const limit = values.limit === undefined ? undefined : Number(values.limit);
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+        console.error(`--limit must be a positive whole number, got "${values.limit}".`);
+        return 1;
+    }
+
+    dotenv.config({ path: ['.env.local', '.env'] });
+    // Imported only now: these modules read their configuration from the environment when they load
+    const { processDailyNationDump } = await import('../lib/nsApi');
+    const { runNationDumpImport } = await import('../lib/dumpStatus');
+    const { initializeDatabase, closeDatabase } = await import('../lib/db');
+
+    const progress = createProgressPrinter();
+    if (values['dry-run']) {
+        const result = await processDailyNationDump({ source, limit, dryRun: true, onProgress: progress.print });
+        progress.done();
+        printResult(result);
+        return result.success ? 0 : 1;
+    }
+
+    try {
+        await initializeDatabase();
+        const result = await runNationDumpImport('cli', {
+            nationsSource: source,
+            regionsSource: values.regions ?? null,
+            limit,
+            onProgress: progress.print,
+        });
+        progress.done();
+        if (!result.started) {
+            console.error(`Another import is already running (started by ${result.status.startedBy ?? 'unknown'}); try again once it finishes.`);
+            return 1;
+        }
+        printResult(result);
+        return result.success ? 0 : 1;
+    } finally {
+        await closeDatabase();
+    }
+}
+
+main().then(
+    (exitCode) => {
+        process.exitCode = exitCode;
+    },
+    (error) => {
+        console.error(error);
+        process.exitCode = 1;
+    }
+);
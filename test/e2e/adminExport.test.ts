@@ -0,0 +1,66 @@
+// test/e2e/adminExport.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, signInAs, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment, TEST_LETTER_SLUG } from './helpers';
+
+describe('GET /api/admin/export', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let exportHandler: typeof import('../../pages/api/admin/export').default;
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        exportHandler = (await import('../../pages/api/admin/export')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        await db.run(
+            `INSERT INTO signatures ("letterId", "nationId", "nationName", checksum, "signedAt")
+             SELECT l.id, n."nationId", n."nationName", 'abc123', n."signedAt"::timestamptz
+             FROM letters l, (VALUES ('testlandia', 'Testlandia', '2026-01-02T00:00:00Z'), ('formula', '=SUM("A1")', '2026-01-01T00:00:00Z')) AS n ("nationId", "nationName", "signedAt")
+             ORDER BY n."signedAt" DESC`
+        );
+    });
+
+    const exportAs = async (format: string) =>
+        callApi(exportHandler, { method: 'GET', query: { format, sort: 'signedAt', dir: 'asc' }, cookies: await signInAs('viewer') });
+
+    it('refuses anyone who is not signed in', async () => {
+        const result = await callApi(exportHandler, { method: 'GET', query: { format: 'csv' } });
+
+        assert.equal(result.status, 401);
+        assert.equal(result.text, '');
+    });
+
+    it('writes quoted CSV that spreadsheets will not evaluate', async () => {
+        const result = await exportAs('csv');
+
+        assert.equal(result.headers['content-type'], 'text/csv; charset=utf-8');
+        assert.match(String(result.headers['content-disposition']), /^attachment; filename="signatures-\d{4}-\d{2}-\d{2}\.csv"$/);
+        const lines = result.text.split('\r\n');
+        assert.equal(lines[0], 'id,letter,nation,region,flagUrl,signedAt,status');
+        assert.equal(lines[1], `"2","${TEST_LETTER_SLUG}","'=SUM(""A1"")","Unknown Region","","2026-01-01T00:00:00.000Z","active"`);
+        assert.equal(lines[2], `"1","${TEST_LETTER_SLUG}","Testlandia","Unknown Region","","2026-01-02T00:00:00.000Z","active"`);
+        assert.equal(lines[3], '');
+    });
+
+    it('writes a JSON array of export records', async () => {
+        const result = await exportAs('json');
+
+        assert.equal(result.headers['content-type'], 'application/json; charset=utf-8');
+        const records = JSON.parse(result.text);
+        assert.deepEqual(records.map((record: any) => [record.id, record.nation, record.status]), [[2, '=SUM("A1")', 'active'], [1, 'Testlandia', 'active']]);
+    });
+
+    it('writes a numbered BBCode list', async () => {
+        const result = await exportAs('bbcode');
+
+        assert.equal(result.text, '[list=1]\n[*][nation]=SUM("A1")[/nation] of [region]Unknown Region[/region]\n[*][nation]Testlandia[/nation] of [region]Unknown Region[/region]\n[/list]\n');
+    });
+});
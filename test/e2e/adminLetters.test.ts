@@ -0,0 +1,54 @@
+// test/e2e/adminLetters.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, signInAs, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment } from './helpers';
+
+describe('/api/admin/letters', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let lettersHandler: typeof import('../../pages/api/admin/letters').default;
+    let db: typeof import('../../lib/db').db;
+    let cookies: Record<string, string>;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        lettersHandler = (await import('../../pages/api/admin/letters')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        cookies = await signInAs('owner');
+    });
+
+    it('refuses to create a closed letter that opens in the future', async () => {
+        const result = await callApi(lettersHandler, {
+            method: 'POST',
+            body: { slug: 'later', title: 'Later', status: 'closed', openAt: '2099-01-01T00:00:00Z' },
+            cookies,
+        });
+
+        assert.equal(result.status, 400);
+        assert.equal(await db.get(`SELECT id FROM letters WHERE slug = 'later'`), undefined);
+    });
+
+    it('refuses an update that would close a letter before it opens', async () => {
+        const created = await callApi(lettersHandler, {
+            method: 'POST',
+            body: { slug: 'later', title: 'Later', status: 'open', openAt: '2099-01-01T00:00:00Z' },
+            cookies,
+        });
+        assert.equal(created.status, 201);
+
+        const closeEarly = await callApi(lettersHandler, { method: 'PATCH', body: { id: created.body.id, closeAt: '2098-01-01T00:00:00Z' }, cookies });
+        const closeNow = await callApi(lettersHandler, { method: 'PATCH', body: { id: created.body.id, status: 'closed' }, cookies });
+
+        assert.equal(closeEarly.status, 400);
+        assert.equal(closeNow.status, 400);
+        const letter = await db.get('SELECT status, "closeAt" FROM letters WHERE id = $1', [created.body.id]);
+        assert.deepEqual(letter, { status: 'open', closeAt: null });
+    });
+});
@@ -0,0 +1,129 @@
+// test/e2e/adminLogin.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, signInAs, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment } from './helpers';
+
+describe('POST /api/admin/login', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let loginHandler: typeof import('../../pages/api/admin/login').default;
+    let logoutHandler: typeof import('../../pages/api/admin/logout').default;
+    let meHandler: typeof import('../../pages/api/admin/me').default;
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        loginHandler = (await import('../../pages/api/admin/login')).default;
+        logoutHandler = (await import('../../pages/api/admin/logout')).default;
+        meHandler = (await import('../../pages/api/admin/me')).default;
+        db = (await import('../../lib/db')).db;
+        const { hashAdminPassword } = await import('../../lib/auth');
+        process.env.ADMIN_PASSWORD_HASH = await hashAdminPassword('correct horse');
+    });
+
+    after(() => {
+        delete process.env.ADMIN_PASSWORD_HASH;
+        delete process.env.TRUSTED_PROXY_HOPS;
+        return stopTestEnvironment(mock);
+    });
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        delete process.env.TRUSTED_PROXY_HOPS;
+    });
+
+    const login = (username: string, password: string, headers: Record<string, string> = {}) =>
+        callApi(loginHandler, { method: 'POST', body: { username, password }, headers });
+
+    it('signs in the bootstrap owner with a session cookie', async () => {
+        const result = await login('admin', 'correct horse');
+
+        assert.equal(result.status, 200);
+        assert.equal(result.body.user.role, 'owner');
+        assert.match(String(result.headers['set-cookie']), /^admin_session=.+; .*HttpOnly/);
+    });
+
+    it('stops accepting a session cookie once it logs out', async () => {
+        const cookies = await signInAs('owner');
+        assert.equal((await callApi(meHandler, { method: 'GET', cookies })).status, 200);
+
+        const loggedOut = await callApi(logoutHandler, { method: 'POST', cookies });
+
+        assert.equal(loggedOut.status, 200);
+        assert.equal((await callApi(meHandler, { method: 'GET', cookies })).status, 401);
+    });
+
+    it('locks an account out after the threshold, even for the right password', async () => {
+        await login('admin', 'correct horse');
+        const statuses: number[] = [];
+        for (let attempt = 0; attempt < 10; attempt++) {
+            // Backoff would refuse quick retries, so each failure is recorded as if it came after the delay
+            await db.run(`UPDATE login_attempts SET "lockedUntil" = NULL`);
+            statuses.push((await login('admin', `wrong ${attempt}`)).status);
+        }
+
+        // Three free attempts, then backoff, then the full lockout on the tenth
+        assert.deepEqual(statuses, [401, 401, 401, ...Array(7).fill(429)]);
+        const locked = await login('admin', 'correct horse');
+        assert.equal(locked.status, 429);
+        assert.ok(Number(locked.headers['retry-after']) > 25 * 60);
+        const events = await db.all('SELECT kind, key FROM login_lockout_events');
+        assert.deepEqual(events, [{ kind: 'account', key: 'admin' }]);
+    });
+
+    it('reports a short backoff in seconds', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await login('admin', `wrong ${attempt}`);
+        }
+
+        const blocked = await login('admin', 'wrong again');
+
+        assert.equal(blocked.status, 429);
+        assert.equal(blocked.headers['retry-after'], '2');
+        assert.match(blocked.body.error, /Try again in 2 seconds\./);
+    });
+
+    it('counts parallel guesses one at a time, so a burst cannot get past the backoff', async () => {
+        const results = await Promise.all(Array.from({ length: 10 }, (_, attempt) => login('admin', `wrong ${attempt}`)));
+
+        // The fourth guess sets the first backoff, which turns the rest away before their passwords are checked
+        assert.ok(results.every((result) => result.status === 401 || result.status === 429));
+        const account = await db.get(`SELECT failures FROM login_attempts WHERE kind = 'account' AND key = 'admin'`);
+        assert.equal(account.failures, 4);
+    });
+
+    it('keeps the IP counter when another account signs in from the same address', async () => {
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await login(`nobody-${attempt}`, 'wrong');
+        }
+
+        assert.equal((await login('admin', 'correct horse')).status, 200);
+
+        const counters = await db.all('SELECT kind, key, failures FROM login_attempts ORDER BY kind, key');
+        assert.equal(counters.some((row: { kind: string; key: string }) => row.kind === 'account' && row.key === 'admin'), false);
+        assert.deepEqual(counters.find((row: { kind: string }) => row.kind === 'ip'), { kind: 'ip', key: '127.0.0.1', failures: 5 });
+    });
+
+    it('does not let a forged X-Forwarded-For escape the per-IP backoff', async () => {
+        // Different usernames each time, so only the IP counter can block
+        for (let attempt = 0; attempt < 11; attempt++) {
+            await login(`nobody-${attempt}`, 'wrong', { 'x-forwarded-for': `198.51.100.${attempt}` });
+        }
+
+        const spoofed = await login('nobody-else', 'wrong', { 'x-forwarded-for': '198.51.100.99' });
+
+        assert.equal(spoofed.status, 429);
+        const ipCounters = await db.all(`SELECT key FROM login_attempts WHERE kind = 'ip'`);
+        assert.deepEqual(ipCounters, [{ key: '127.0.0.1' }]);
+    });
+
+    it('takes the client IP from the hop added by a trusted proxy', async () => {
+        process.env.TRUSTED_PROXY_HOPS = '1';
+
+        await login('nobody', 'wrong', { 'x-forwarded-for': 'forged, 203.0.113.5' });
+
+        const ipCounters = await db.all(`SELECT key FROM login_attempts WHERE kind = 'ip'`);
+        assert.deepEqual(ipCounters, [{ key: '203.0.113.5' }]);
+    });
+});
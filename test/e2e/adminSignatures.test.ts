@@ -0,0 +1,135 @@
+// test/e2e/adminSignatures.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, signInAs, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment, TEST_LETTER_SLUG } from './helpers';
+
+describe('/api/admin/signatures', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let signaturesHandler: typeof import('../../pages/api/admin/signatures').default;
+    let publicSignaturesHandler: typeof import('../../pages/api/signatures').default;
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        signaturesHandler = (await import('../../pages/api/admin/signatures')).default;
+        publicSignaturesHandler = (await import('../../pages/api/signatures')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        await db.run(
+            `INSERT INTO signatures ("letterId", "nationId", "nationName", checksum)
+             SELECT l.id, n."nationId", n."nationName", 'abc123'
+             FROM letters l, (VALUES ('testlandia', 'Testlandia'), ('mock_ally', 'Mock Ally'), ('half_percent', '50% Solution')) AS n ("nationId", "nationName")`
+        );
+    });
+
+    const signatureId = async (nationId: string): Promise<number> =>
+        (await db.get('SELECT id FROM signatures WHERE "nationId" = $1', [nationId])).id;
+
+    it('only lets moderators and owners change signatures', async () => {
+        const id = await signatureId('mock_ally');
+        const revoke = { id, action: 'revoke', reason: 'Puppet' };
+        const viewerCookies = await signInAs('viewer');
+
+        const anonymous = await callApi(signaturesHandler, { method: 'PATCH', body: revoke });
+        const viewer = await callApi(signaturesHandler, { method: 'PATCH', body: revoke, cookies: viewerCookies });
+        const viewerBatch = await callApi(signaturesHandler, { method: 'POST', body: { ids: [id], action: 'revoke', reason: 'Puppet' }, cookies: viewerCookies });
+
+        assert.equal(anonymous.status, 401);
+        assert.equal(viewer.status, 403);
+        assert.equal(viewerBatch.status, 403);
+        assert.equal((await db.all('SELECT id FROM signatures WHERE "revokedAt" IS NOT NULL')).length, 0);
+
+        const moderator = await callApi(signaturesHandler, { method: 'PATCH', body: revoke, cookies: await signInAs('moderator') });
+        assert.equal(moderator.status, 200);
+    });
+
+    it('rejects a signature id that is not a positive integer', async () => {
+        const cookies = await signInAs('moderator');
+
+        for (const id of [String(await signatureId('mock_ally')), 1.5, 0]) {
+            const result = await callApi(signaturesHandler, { method: 'PATCH', body: { id, action: 'revoke', reason: 'Puppet' }, cookies });
+            assert.equal(result.status, 400);
+        }
+        const batch = await callApi(signaturesHandler, { method: 'POST', body: { ids: [1e20], action: 'revoke', reason: 'Puppet' }, cookies });
+        assert.equal(batch.status, 400);
+    });
+
+    it('records each change in an audit log that cannot be rewritten', async () => {
+        const id = await signatureId('mock_ally');
+
+        await callApi(signaturesHandler, { method: 'PATCH', body: { id, action: 'revoke', reason: 'Puppet' }, cookies: await signInAs('moderator') });
+
+        const entries = await db.all('SELECT "actorUsername", action, "signatureId", "nationName", reason FROM signature_audit_log');
+        assert.deepEqual(entries, [{ actorUsername: 'test-moderator', action: 'revoke', signatureId: id, nationName: 'Mock Ally', reason: 'Puppet' }]);
+        await assert.rejects(db.run(`UPDATE signature_audit_log SET reason = 'Nothing happened'`), /append-only/);
+        await assert.rejects(db.run('DELETE FROM signature_audit_log'), /append-only/);
+    });
+
+    it('hides a revoked signature from the public list until it is restored', async () => {
+        const id = await signatureId('mock_ally');
+        const cookies = await signInAs('moderator');
+        const publicNames = async () => {
+            const result = await callApi(publicSignaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } });
+            return result.body.map((signature: any) => signature.nationName).sort();
+        };
+
+        await callApi(signaturesHandler, { method: 'PATCH', body: { id, action: 'revoke', reason: 'Puppet' }, cookies });
+        assert.deepEqual(await publicNames(), ['50% Solution', 'Testlandia']);
+        assert.ok(await db.get('SELECT id FROM signatures WHERE id = $1', [id]), 'a revoked signature keeps its row');
+
+        await callApi(signaturesHandler, { method: 'PATCH', body: { id, action: 'restore' }, cookies });
+        assert.deepEqual(await publicNames(), ['50% Solution', 'Mock Ally', 'Testlandia']);
+    });
+
+    it('applies a batch to every listed signature and reports the ones it skipped', async () => {
+        const cookies = await signInAs('moderator');
+        const alreadyRevoked = await signatureId('mock_ally');
+        await callApi(signaturesHandler, { method: 'PATCH', body: { id: alreadyRevoked, action: 'revoke', reason: 'Puppet' }, cookies });
+        const ids = (await db.all('SELECT id FROM signatures')).map((row) => row.id);
+
+        const revoked = await callApi(signaturesHandler, { method: 'POST', body: { ids, action: 'revoke', reason: 'Raid' }, cookies });
+
+        assert.equal(revoked.status, 200);
+        assert.deepEqual({ succeeded: revoked.body.succeeded, failed: revoked.body.failed }, { succeeded: 2, failed: 1 });
+        assert.equal(revoked.body.results.find((result: any) => !result.ok).id, alreadyRevoked);
+
+        const restored = await callApi(signaturesHandler, { method: 'POST', body: { filter: { status: 'revoked', q: 'mock' }, action: 'restore' }, cookies });
+
+        assert.equal(restored.body.succeeded, 1);
+        const stillRevoked = await db.all('SELECT "nationId" FROM signatures WHERE "revokedAt" IS NOT NULL ORDER BY "nationId"');
+        assert.deepEqual(stillRevoked, [{ nationId: 'half_percent' }, { nationId: 'testlandia' }]);
+    });
+
+    it('pages with the cursor it returned and rejects one whose sort key does not fit the column', async () => {
+        const cookies = await signInAs('viewer');
+        const first = await callApi(signaturesHandler, { method: 'GET', query: { sort: 'signedAt', limit: '2' }, cookies });
+        const second = await callApi(signaturesHandler, { method: 'GET', query: { sort: 'signedAt', limit: '2', cursor: first.body.nextCursor }, cookies });
+        assert.equal(second.status, 200);
+        assert.equal(first.body.signatures.length + second.body.signatures.length, 3);
+
+        const forged = Buffer.from(JSON.stringify(['x', 1])).toString('base64url');
+        const result = await callApi(signaturesHandler, { method: 'GET', query: { sort: 'signedAt', cursor: forged }, cookies });
+
+        assert.equal(result.status, 400);
+    });
+
+    it('takes % and _ in a search literally', async () => {
+        const cookies = await signInAs('viewer');
+        const search = async (q: string) => {
+            const result = await callApi(signaturesHandler, { method: 'GET', query: { q }, cookies });
+            assert.equal(result.status, 200);
+            return result.body.signatures.map((signature: any) => signature.nationName);
+        };
+
+        assert.deepEqual(await search('_'), []);
+        assert.deepEqual(await search('%'), ['50% Solution']);
+        assert.deepEqual(await search('ally'), ['Mock Ally']);
+    });
+});
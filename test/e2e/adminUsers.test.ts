@@ -0,0 +1,63 @@
+// test/e2e/adminUsers.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, signInAs, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment } from './helpers';
+
+describe('/api/admin/users', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let usersHandler: typeof import('../../pages/api/admin/users').default;
+    let db: typeof import('../../lib/db').db;
+    let cookies: Record<string, string>;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        usersHandler = (await import('../../pages/api/admin/users')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        cookies = await signInAs('owner');
+    });
+
+    const ownerCount = async (): Promise<number> =>
+        (await db.get(`SELECT COUNT(*)::int AS count FROM admin_users WHERE role = 'owner'`)).count;
+
+    it('rejects ids that are not positive integers and reports unknown ones', async () => {
+        for (const method of ['PATCH', 'DELETE']) {
+            const result = await callApi(usersHandler, { method, body: { id: 'abc', role: 'viewer' }, cookies });
+            assert.equal(result.status, 400);
+        }
+
+        const missing = await callApi(usersHandler, { method: 'DELETE', body: { id: 999 }, cookies });
+        assert.equal(missing.status, 404);
+    });
+
+    it('refuses a username that is only whitespace', async () => {
+        const result = await callApi(usersHandler, { method: 'POST', body: { username: '   ', password: 'long enough password', role: 'viewer' }, cookies });
+
+        assert.equal(result.status, 400);
+        assert.equal((await db.all('SELECT id FROM admin_users')).length, 1);
+    });
+
+    it('keeps one owner when two owners demote themselves at the same time', async () => {
+        const created = await callApi(usersHandler, { method: 'POST', body: { username: 'second', password: 'long enough password', role: 'owner' }, cookies });
+        assert.equal(created.status, 201);
+        const { createAdminSession, SESSION_COOKIE_NAME } = await import('../../lib/auth');
+        const ownId = (await db.get(`SELECT id FROM admin_users WHERE username = 'test-owner'`)).id;
+        const secondCookies = { [SESSION_COOKIE_NAME]: (await createAdminSession(created.body.id)).cookieValue };
+
+        // Each demotes itself, so both pass the role check and only the last-owner check can refuse one
+        const results = await Promise.all([
+            callApi(usersHandler, { method: 'PATCH', body: { id: ownId, role: 'viewer' }, cookies }),
+            callApi(usersHandler, { method: 'PATCH', body: { id: created.body.id, role: 'viewer' }, cookies: secondCookies }),
+        ]);
+
+        assert.deepEqual(results.map((result) => result.status).sort(), [200, 400]);
+        assert.equal(await ownerCount(), 1);
+    });
+});
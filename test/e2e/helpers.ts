@@ -0,0 +1,141 @@
+// test/e2e/helpers.ts
+// Shared setup for the end-to-end tests. They need a real, disposable Postgres database in TEST_POSTGRES_URL:
+// its tables are emptied between tests. Without it, every suite is skipped.
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { startMockNsServer, MockNsServer } from '../mockNs/server';
+import type { AdminRole } from '../../lib/db';
+
+export const TEST_DATABASE_URL = process.env.TEST_POSTGRES_URL;
+
+export const skipWithoutDatabase = TEST_DATABASE_URL ? false : 'TEST_POSTGRES_URL is not set';
+
+// The letter `initializeDatabase` seeds, which every test signs unless it creates its own
+export const TEST_LETTER_SLUG = 'on-separatist-peoples';
+
+/**
+ * Starts the mock server and points the app's environment at it and at the test database.
+ * Must run before any `lib/` module is imported, since they read their configuration on load.
+ */
+export async function startTestEnvironment(): Promise<MockNsServer> {
+    const mock = await startMockNsServer();
+    process.env.POSTGRES_URL = TEST_DATABASE_URL;
+    process.env.POSTGRES_SSL = process.env.POSTGRES_SSL || 'disable';
+    process.env.NS_API_BASE_URL = mock.apiUrl;
+    process.env.NS_DUMP_NATIONS_URL = mock.nationsDumpUrl;
+    process.env.NS_DUMP_REGIONS_URL = mock.regionsDumpUrl;
+    process.env.NS_VERIFY_PAGE_URL = mock.verifyPageUrl;
+    process.env.NS_USER_AGENT = 'OpenLetterNSVerify end-to-end tests';
+    process.env.NS_VERIFY_TOKEN_SECRET = 'end-to-end-test-secret';
+    process.env.ADMIN_SESSION_SECRET = 'end-to-end-session-secret';
+    // The fixtures are tiny, so dropping a single nation is already a large share of the dump
+    process.env.DUMP_MIN_ROW_RATIO = '0.5';
+
+    const { initializeDatabase } = await import('../../lib/db');
+    await initializeDatabase();
+    return mock;
+}
+
+/**
+ * Stops the mock server and closes the database pool so the test process can exit.
+ */
+export async function stopTestEnvironment(mock: MockNsServer | undefined): Promise<void> {
+    await mock?.close();
+    if (TEST_DATABASE_URL) {
+        const { closeDatabase } = await import('../../lib/db');
+        await closeDatabase();
+    }
+}
+
+/**
+ * Empties every table the tests write to, leaving the single-row state tables and the seeded letter in their initial state.
+ */
+export async function resetDatabase(): Promise<void> {
+    const { db } = await import('../../lib/db');
+    await db.run(`
+        TRUNCATE signatures, signature_audit_log, admin_users, admin_sessions, login_attempts, login_lockout_events, letter_versions, nation_cache, nation_cache_staging, nation_cache_changes, region_cache, verification_tokens, ns_api_requests, dump_runs RESTART IDENTITY;
+        UPDATE ns_api_rate_state SET "blockedUntil" = NULL;
+        UPDATE dump_import_status SET running = FALSE, phase = NULL;
+        DELETE FROM letters WHERE slug <> '${TEST_LETTER_SLUG}';
+        UPDATE letters SET "countCeasedSigners" = TRUE, "bannedCommentWords" = '{}', status = 'open', "openAt" = NULL, "closeAt" = NULL;
+    `);
+}
+
+export interface ApiResult {
+    status: number;
+    body: any;
+    // Everything written with `res.write` and `res.end`, for handlers that stream their response
+    text: string;
+    headers: Record<string, string | number | readonly string[]>;
+}
+
+/**
+ * Calls a Pages Router API handler directly with a minimal request and collects what it sends.
+ */
+export async function callApi(
+    handler: (req: NextApiRequest, res: NextApiResponse) => unknown,
+    options: { method: string; body?: unknown; query?: Record<string, string>; headers?: Record<string, string>; cookies?: Record<string, string> }
+): Promise<ApiResult> {
+    const result: ApiResult = { status: 200, body: undefined, text: '', headers: {} };
+    const req = {
+        method: options.method,
+        body: options.body ?? {},
+        query: options.query ?? {},
+        headers: options.headers ?? {},
+        cookies: options.cookies ?? {},
+        socket: { remoteAddress: '127.0.0.1' },
+    } as unknown as NextApiRequest;
+    const res = {
+        status(code: number) {
+            result.status = code;
+            return res;
+        },
+        json(body: unknown) {
+            result.body = body;
+            return res;
+        },
+        setHeader(name: string, value: string | number | readonly string[]) {
+            result.headers[name.toLowerCase()] = value;
+            return res;
+        },
+        write(chunk: string) {
+            result.text += chunk;
+            return true;
+        },
+        end(chunk?: string) {
+            result.text += chunk ?? '';
+            return res;
+        },
+    } as unknown as NextApiResponse;
+
+    await handler(req, res);
+    return result;
+}
+
+/**
+ * Creates an admin account with the given role and a live session for it.
+ * @returns The cookies to pass to `callApi` to act as that admin.
+ */
+export async function signInAs(role: AdminRole): Promise<Record<string, string>> {
+    const { db } = await import('../../lib/db');
+    const { createAdminSession, SESSION_COOKIE_NAME } = await import('../../lib/auth');
+    // The password is never checked, since the session is created directly
+    const admin = await db.get(
+        `INSERT INTO admin_users (username, "passwordHash", role) VALUES ($1, 'unused', $2) RETURNING id`,
+        [`test-${role}`, role]
+    );
+    const { cookieValue } = await createAdminSession(admin.id);
+    return { [SESSION_COOKIE_NAME]: cookieValue };
+}
+
+/**
+ * Polls `check` until it returns a truthy value or `timeoutMs` passes.
+ */
+export async function waitFor<T>(check: () => Promise<T>, timeoutMs = 5000): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const value = await check();
+        if (value) return value;
+        if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms`);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+}
@@ -0,0 +1,246 @@
+// test/e2e/sign.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment, TEST_LETTER_SLUG } from './helpers';
+
+describe('POST /api/sign', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let signHandler: typeof import('../../pages/api/sign').default;
+    let tokenHandler: typeof import('../../pages/api/verification-token').default;
+    let signaturesHandler: typeof import('../../pages/api/signatures').default;
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        signHandler = (await import('../../pages/api/sign')).default;
+        tokenHandler = (await import('../../pages/api/verification-token')).default;
+        signaturesHandler = (await import('../../pages/api/signatures')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+    });
+
+    const issueToken = async (nationName: string): Promise<string> => {
+        const issued = await callApi(tokenHandler, { method: 'POST', body: { nationName } });
+        assert.equal(issued.status, 200);
+        assert.ok(issued.body.verifyUrl.startsWith(mock.verifyPageUrl));
+        return issued.body.token;
+    };
+
+    it('records a signature once NationStates confirms the checksum', async () => {
+        const token = await issueToken('Testlandia');
+        mock.verifyResponses = ['1'];
+
+        const result = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: ' testlandia ', checksum: 'abc123', token } });
+
+        assert.equal(result.status, 200);
+        const verify = mock.requests.find((request) => request.query.a === 'verify');
+        assert.deepEqual(
+            { nation: verify?.query.nation, checksum: verify?.query.checksum, token: verify?.query.token },
+            { nation: 'testlandia', checksum: 'abc123', token }
+        );
+        assert.equal(verify?.userAgent, process.env.NS_USER_AGENT);
+        const signatures = await db.all('SELECT "nationId", checksum FROM signatures');
+        assert.deepEqual(signatures, [{ nationId: 'testlandia', checksum: 'abc123' }]);
+    });
+
+    it('rejects a checksum NationStates does not confirm', async () => {
+        const token = await issueToken('Testlandia');
+        mock.verifyResponses = ['0'];
+
+        const result = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'wrong', token } });
+
+        assert.equal(result.status, 400);
+        assert.equal((await db.all('SELECT id FROM signatures')).length, 0);
+    });
+
+    it('retries verification after a 429', async () => {
+        const token = await issueToken('Testlandia');
+        mock.verifyResponses = [429, '1'];
+
+        const result = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token } });
+
+        assert.equal(result.status, 200);
+        assert.equal(mock.requests.filter((request) => request.query.a === 'verify').length, 2);
+    });
+
+    it('does not accept a token twice or for another nation', async () => {
+        const token = await issueToken('Testlandia');
+        mock.defaultVerifyResponse = '1';
+
+        const first = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token } });
+        const reused = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token } });
+        const otherNation = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Mock Ally', checksum: 'abc123', token } });
+
+        assert.equal(first.status, 200);
+        assert.equal(reused.status, 400);
+        assert.equal(otherNation.status, 400);
+        // Neither rejected attempt should have reached NationStates
+        assert.equal(mock.requests.filter((request) => request.query.a === 'verify').length, 1);
+    });
+
+    it('limits how many verification links one address can request', async () => {
+        const results = await Promise.all(Array.from({ length: 25 }, (_, index) =>
+            callApi(tokenHandler, { method: 'POST', body: { nationName: `Nation ${index}` } })
+        ));
+
+        assert.equal(results.filter((result) => result.status === 200).length, 20);
+        const refused = results.find((result) => result.status === 429);
+        assert.ok(Number(refused?.headers['retry-after']) > 0);
+        assert.equal((await db.get('SELECT COUNT(*)::int AS count FROM verification_tokens')).count, 20);
+    });
+
+    it('fills the nation cache from the live API for a signer missing from it', async () => {
+        const token = await issueToken('mock ally');
+        mock.verifyResponses = ['1'];
+
+        const result = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'mock ally', checksum: 'abc123', token } });
+        assert.equal(result.status, 200);
+
+        // Both are done before the response is sent
+        const cached = await db.get('SELECT "nationName", region, "waStatus" FROM nation_cache WHERE "nationId" = $1', ['mock_ally']);
+        assert.deepEqual(cached, { nationName: 'Mock Ally', region: 'Testregionia', waStatus: 'WA Member' });
+        // The signature adopts NationStates' spelling once the cache has it
+        const signature = await db.get(`SELECT "nationName" FROM signatures WHERE "nationName" = 'Mock Ally'`);
+        assert.ok(signature);
+    });
+
+    it('holds a comment for moderation and publishes it once approved', async () => {
+        const token = await issueToken('Testlandia');
+        mock.verifyResponses = ['1'];
+
+        const result = await callApi(signHandler, {
+            method: 'POST',
+            body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token, comment: '  Because <b>Testlandia</b>\n cares.  ' },
+        });
+        assert.equal(result.status, 200);
+
+        const stored = await db.get('SELECT id, comment, "commentStatus" FROM signatures');
+        assert.deepEqual({ comment: stored.comment, commentStatus: stored.commentStatus }, { comment: 'Because Testlandia cares.', commentStatus: 'pending' });
+        assert.equal((await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } })).body[0].comment, null);
+
+        await db.run(`UPDATE signatures SET "commentStatus" = 'approved' WHERE id = $1`, [stored.id]);
+        assert.equal((await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } })).body[0].comment, 'Because Testlandia cares.');
+    });
+
+    it('keeps angle brackets that are not part of a tag', async () => {
+        const token = await issueToken('Testlandia');
+        mock.verifyResponses = ['1'];
+
+        const result = await callApi(signHandler, {
+            method: 'POST',
+            body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token, comment: '3 < 4 and 5 > 2, <i>obviously</i>' },
+        });
+
+        assert.equal(result.status, 200);
+        const stored = await db.get('SELECT comment FROM signatures');
+        assert.equal(stored.comment, '3 < 4 and 5 > 2, obviously');
+    });
+
+    it('keeps a nation\'s signatures on different letters apart', async () => {
+        await db.run(`INSERT INTO letters (slug, title) VALUES ('second-letter', 'A Second Letter')`);
+        mock.defaultVerifyResponse = '1';
+
+        for (const letter of [TEST_LETTER_SLUG, 'second-letter']) {
+            const token = await issueToken('Testlandia');
+            const result = await callApi(signHandler, { method: 'POST', body: { letter, nationName: 'Testlandia', checksum: 'abc123', token } });
+            assert.equal(result.status, 200);
+            assert.match(result.body.message, /has been added/);
+        }
+
+        const signatures = await db.all('SELECT l.slug FROM signatures s JOIN letters l ON l.id = s."letterId" ORDER BY l.id');
+        assert.deepEqual(signatures, [{ slug: TEST_LETTER_SLUG }, { slug: 'second-letter' }]);
+        const unknown = await callApi(signHandler, { method: 'POST', body: { letter: 'no-such-letter', nationName: 'Testlandia', checksum: 'abc123', token: await issueToken('Testlandia') } });
+        assert.equal(unknown.status, 404);
+    });
+
+    it('records the version of the letter text that was signed', async () => {
+        const publish = (body: string) => db.run(
+            `INSERT INTO letter_versions ("letterId", version, body)
+             SELECT id, COALESCE((SELECT MAX(version) FROM letter_versions WHERE "letterId" = letters.id), 0) + 1, $2 FROM letters WHERE slug = $1`,
+            [TEST_LETTER_SLUG, body]
+        );
+        mock.defaultVerifyResponse = '1';
+
+        await publish('We, the undersigned, ask for change.');
+        const first = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token: await issueToken('Testlandia') } });
+        assert.equal(first.status, 200);
+        await publish('We, the undersigned, ask for real change.');
+        const second = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Mock Ally', checksum: 'abc123', token: await issueToken('Mock Ally') } });
+        assert.equal(second.status, 200);
+
+        const listed = await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } });
+        assert.deepEqual(
+            listed.body.map((signature: any) => [signature.nationName, signature.letterVersion]).sort(),
+            [['Mock Ally', 2], ['Testlandia', 1]]
+        );
+        // Published versions cannot be rewritten
+        await assert.rejects(db.run(`UPDATE letter_versions SET body = 'Something else'`));
+    });
+
+    it('only takes signatures while the letter is open and freezes its list once closed', async () => {
+        mock.defaultVerifyResponse = '1';
+        const sign = async (nationName: string) => callApi(signHandler, {
+            method: 'POST',
+            body: { letter: TEST_LETTER_SLUG, nationName, checksum: 'abc123', token: await issueToken(nationName) },
+        });
+
+        await db.run(`UPDATE letters SET "openAt" = NOW() + INTERVAL '1 day' WHERE slug = $1`, [TEST_LETTER_SLUG]);
+        const early = await sign('Testlandia');
+        assert.equal(early.status, 403);
+        assert.equal(early.body.code, 'LETTER_NOT_OPEN');
+
+        await db.run(`UPDATE letters SET "openAt" = NULL WHERE slug = $1`, [TEST_LETTER_SLUG]);
+        assert.equal((await sign('Testlandia')).status, 200);
+
+        // A signature slipped in after the close time stays out of the frozen list
+        await db.run(`UPDATE letters SET "closeAt" = NOW() - INTERVAL '1 minute' WHERE slug = $1`, [TEST_LETTER_SLUG]);
+        await db.run(`UPDATE signatures SET "signedAt" = NOW() - INTERVAL '1 hour'`);
+        await db.run(
+            `INSERT INTO signatures ("letterId", "nationId", "nationName", checksum) SELECT id, 'late_nation', 'Late Nation', 'abc123' FROM letters WHERE slug = $1`,
+            [TEST_LETTER_SLUG]
+        );
+        const late = await sign('Mock Ally');
+        assert.equal(late.status, 403);
+        assert.equal(late.body.code, 'LETTER_CLOSED');
+        // Neither refusal should have used up a verification link
+        assert.equal(mock.requests.filter((request) => request.query.a === 'verify').length, 1);
+
+        const listed = await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } });
+        assert.deepEqual(listed.body.map((signature: any) => signature.nationName), ['Testlandia']);
+
+        await db.run(`UPDATE letters SET status = 'draft', "closeAt" = NULL WHERE slug = $1`, [TEST_LETTER_SLUG]);
+        assert.equal((await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } })).status, 404);
+    });
+
+    it('refuses a signature when the letter closes while NationStates is verifying it', async () => {
+        const token = await issueToken('Testlandia');
+        mock.defaultVerifyResponse = '1';
+        mock.beforeVerify = () => db.run(`UPDATE letters SET status = 'closed', "closeAt" = NOW() WHERE slug = $1`, [TEST_LETTER_SLUG]);
+
+        const result = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token } });
+
+        assert.equal(result.status, 403);
+        assert.equal(result.body.code, 'LETTER_CLOSED');
+        assert.equal((await db.all('SELECT id FROM signatures')).length, 0);
+    });
+
+    it('refuses a comment with a banned word before using up the token', async () => {
+        await db.run(`UPDATE letters SET "bannedCommentWords" = ARRAY['heck'] WHERE slug = $1`, [TEST_LETTER_SLUG]);
+        const token = await issueToken('Testlandia');
+        mock.defaultVerifyResponse = '1';
+
+        const refused = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token, comment: 'What the HECK' } });
+        assert.equal(refused.status, 400);
+        assert.equal(mock.requests.filter((request) => request.query.a === 'verify').length, 0);
+
+        const accepted = await callApi(signHandler, { method: 'POST', body: { letter: TEST_LETTER_SLUG, nationName: 'Testlandia', checksum: 'abc123', token, comment: 'Checking in' } });
+        assert.equal(accepted.status, 200);
+    });
+});
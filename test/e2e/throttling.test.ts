@@ -0,0 +1,93 @@
+// test/e2e/throttling.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { resetDatabase, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment } from './helpers';
+
+describe('NationStates rate limiting', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let limiter: typeof import('../../lib/nsRateLimiter');
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        limiter = await import('../../lib/nsRateLimiter');
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+    });
+
+    const verifyUrl = () => `${mock.apiUrl}?a=verify&nation=testlandia&checksum=x&token=y`;
+    const callVerify = (priority: 'interactive' | 'background') =>
+        limiter.throttledNsFetch(() => fetch(verifyUrl()), verifyUrl(), { priority });
+
+    it('waits out Retry-After before retrying a 429', async () => {
+        mock.verifyResponses = [429, '1'];
+        const startedAt = Date.now();
+
+        const response = await callVerify('interactive');
+
+        assert.equal((await response.text()).trim(), '1');
+        const [first, second] = mock.requests;
+        assert.ok(second.receivedAt - first.receivedAt >= 900, 'retry should wait about a second');
+        assert.ok(Date.now() - startedAt < 10000);
+    });
+
+    it('pauses every request when RateLimit-Remaining runs out', async () => {
+        mock.defaultVerifyResponse = '1';
+        mock.nextRateLimitHeaders = { remaining: 0, resetSeconds: 1 };
+
+        await callVerify('interactive');
+        const blocked = await db.get(`SELECT "blockedUntil" > NOW() AS blocked FROM ns_api_rate_state WHERE id = 1`);
+        assert.equal(blocked.blocked, true);
+
+        await callVerify('interactive');
+        const [first, second] = mock.requests;
+        assert.ok(second.receivedAt - first.receivedAt >= 900, 'second request should wait for the reset');
+    });
+
+    it('serves interactive requests before background ones and reports the queue', async () => {
+        mock.defaultVerifyResponse = '1';
+        await db.run(`UPDATE ns_api_rate_state SET "blockedUntil" = NOW() + INTERVAL '1 second' WHERE id = 1`);
+
+        const order: string[] = [];
+        const background = callVerify('background').then(() => order.push('background'));
+        const interactive = callVerify('interactive').then(() => order.push('interactive'));
+
+        const status = await limiter.getNsRateLimitStatus();
+        assert.deepEqual(status.queueDepth, { interactive: 1, background: 1 });
+        assert.ok(status.blockedUntil);
+
+        await Promise.all([background, interactive]);
+        assert.deepEqual(order, ['interactive', 'background']);
+        assert.deepEqual(limiter.getNsQueueDepth(), { interactive: 0, background: 0 });
+    });
+
+    it('counts every request against the shared window', async () => {
+        mock.defaultVerifyResponse = '1';
+
+        await Promise.all([callVerify('interactive'), callVerify('background'), callVerify('background')]);
+
+        const status = await limiter.getNsRateLimitStatus();
+        assert.equal(status.requestsInWindow, 3);
+        const rows = await db.all('SELECT priority FROM ns_api_requests ORDER BY id');
+        assert.deepEqual(rows.map((row: { priority: string }) => row.priority), ['interactive', 'background', 'background']);
+    });
+
+    it('fails queued requests instead of waiting forever when the shared window cannot be read', async () => {
+        mock.defaultVerifyResponse = '1';
+        await db.run('ALTER TABLE ns_api_requests RENAME TO ns_api_requests_hidden');
+        try {
+            await assert.rejects(callVerify('interactive'), limiter.NsRateLimiterUnavailableError);
+        } finally {
+            await db.run('ALTER TABLE ns_api_requests_hidden RENAME TO ns_api_requests');
+        }
+        assert.equal(mock.requests.length, 0);
+        assert.deepEqual(limiter.getNsQueueDepth(), { interactive: 0, background: 0 });
+    });
+});
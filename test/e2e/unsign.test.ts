@@ -0,0 +1,88 @@
+// test/e2e/unsign.test.ts
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MockNsServer } from '../mockNs/server';
+import { callApi, resetDatabase, skipWithoutDatabase, startTestEnvironment, stopTestEnvironment, TEST_LETTER_SLUG } from './helpers';
+
+describe('POST /api/unsign', { skip: skipWithoutDatabase }, () => {
+    let mock: MockNsServer;
+    let signHandler: typeof import('../../pages/api/sign').default;
+    let unsignHandler: typeof import('../../pages/api/unsign').default;
+    let tokenHandler: typeof import('../../pages/api/verification-token').default;
+    let signaturesHandler: typeof import('../../pages/api/signatures').default;
+    let db: typeof import('../../lib/db').db;
+
+    before(async () => {
+        mock = await startTestEnvironment();
+        signHandler = (await import('../../pages/api/sign')).default;
+        unsignHandler = (await import('../../pages/api/unsign')).default;
+        tokenHandler = (await import('../../pages/api/verification-token')).default;
+        signaturesHandler = (await import('../../pages/api/signatures')).default;
+        db = (await import('../../lib/db')).db;
+    });
+
+    after(() => stopTestEnvironment(mock));
+
+    beforeEach(async () => {
+        mock.reset();
+        await resetDatabase();
+        mock.defaultVerifyResponse = '1';
+    });
+
+    const verifiedRequest = async (nationName: string) => {
+        const issued = await callApi(tokenHandler, { method: 'POST', body: { nationName } });
+        return { letter: TEST_LETTER_SLUG, nationName, checksum: 'abc123', token: issued.body.token };
+    };
+
+    it('withdraws a signature and keeps it in the audit log', async () => {
+        await callApi(signHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+
+        const result = await callApi(unsignHandler, { method: 'POST', body: await verifiedRequest('testlandia') });
+
+        assert.equal(result.status, 200);
+        const signature = await db.get('SELECT id, "withdrawnAt" FROM signatures WHERE "nationId" = $1', ['testlandia']);
+        assert.ok(signature.withdrawnAt);
+        assert.deepEqual((await callApi(signaturesHandler, { method: 'GET', query: { letter: TEST_LETTER_SLUG } })).body, []);
+        const history = await db.all('SELECT action, "actorUsername", "signatureId" FROM signature_audit_log');
+        assert.deepEqual(history, [{ action: 'withdraw', actorUsername: 'nation:testlandia', signatureId: signature.id }]);
+    });
+
+    it('refuses without a confirmed checksum', async () => {
+        await callApi(signHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+        mock.verifyResponses = ['0'];
+
+        const result = await callApi(unsignHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+
+        assert.equal(result.status, 400);
+        assert.equal((await db.get('SELECT "withdrawnAt" FROM signatures')).withdrawnAt, null);
+    });
+
+    it('reports a nation with nothing to withdraw without contacting NationStates', async () => {
+        const result = await callApi(unsignHandler, { method: 'POST', body: await verifiedRequest('Mock Ally') });
+
+        assert.equal(result.status, 404);
+        assert.equal(mock.requests.filter((request) => request.query.a === 'verify').length, 0);
+    });
+
+    it('refuses to withdraw from a closed letter', async () => {
+        await callApi(signHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+        await db.run(`UPDATE letters SET status = 'closed', "closeAt" = NOW() WHERE slug = $1`, [TEST_LETTER_SLUG]);
+
+        const result = await callApi(unsignHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+
+        assert.equal(result.status, 403);
+        assert.equal(result.body.code, 'LETTER_CLOSED');
+        assert.equal((await db.get('SELECT "withdrawnAt" FROM signatures')).withdrawnAt, null);
+    });
+
+    it('lets a nation that withdrew sign again', async () => {
+        await callApi(signHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+        await callApi(unsignHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+
+        const again = await callApi(signHandler, { method: 'POST', body: await verifiedRequest('Testlandia') });
+
+        assert.equal(again.status, 200);
+        const signatures = await db.all('SELECT "withdrawnAt" FROM signatures');
+        assert.deepEqual(signatures, [{ withdrawnAt: null }]);
+    });
+});
@@ -0,0 +1,138 @@
+// test/mockNs/fixtures.ts
+// Nations and regions served by the mock NationStates server, and the XML shapes NationStates uses for them.
+
+export interface FixtureNation {
+    name: string;
+    fullName: string;
+    flag: string;
+    region: string;
+    category: string;
+    waStatus: 'WA Member' | 'WA Delegate' | 'Non-member';
+    endorsements: string[];
+    population: number;
+    influence: string;
+    firstLogin: number;
+    foundedTime: number;
+}
+
+export interface FixtureRegion {
+    name: string;
+    delegate: string;
+    founder: string;
+    numNations: number;
+    flag: string;
+    delegateVotes: number;
+}
+
+export const FIXTURE_NATIONS: FixtureNation[] = [
+    {
+        name: 'Testlandia',
+        fullName: 'The Hive Mind of Testlandia',
+        flag: 'https://www.nationstates.net/images/flags/uploads/testlandia.png',
+        region: 'Testregionia',
+        category: 'Psychotic Dictatorship',
+        waStatus: 'WA Delegate',
+        endorsements: ['mock_ally', 'mock_neighbour'],
+        population: 35000,
+        influence: 'Hegemony',
+        firstLogin: 1046390400,
+        foundedTime: 1046390400,
+    },
+    {
+        name: 'Mock Ally',
+        fullName: 'The Republic of Mock Ally',
+        flag: 'https://www.nationstates.net/images/flags/Germany.svg',
+        region: 'Testregionia',
+        category: 'Left-Leaning College State',
+        waStatus: 'WA Member',
+        endorsements: [],
+        population: 120,
+        influence: 'Zero',
+        firstLogin: 1700000000,
+        foundedTime: 1700000000,
+    },
+    {
+        name: 'Mock Neighbour',
+        fullName: 'The Kingdom of Mock Neighbour',
+        flag: '',
+        region: 'The Pacific',
+        category: 'Inoffensive Centrist Democracy',
+        waStatus: 'Non-member',
+        endorsements: [],
+        population: 8,
+        influence: 'Zero',
+        firstLogin: 0,
+        foundedTime: 0,
+    },
+];
+
+export const FIXTURE_REGIONS: FixtureRegion[] = [
+    {
+        name: 'Testregionia',
+        delegate: 'testlandia',
+        founder: 'mock_ally',
+        numNations: 2,
+        flag: 'https://www.nationstates.net/images/flags/uploads/rflags/testregionia.png',
+        delegateVotes: 3,
+    },
+    {
+        name: 'The Pacific',
+        delegate: '0',
+        founder: '0',
+        numNations: 1,
+        flag: '',
+        delegateVotes: 0,
+    },
+];
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function element(tag: string, value: string | number): string {
+    return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+// The fields the dump and the nation API share; the dump nests a few extra tags to exercise the parser's depth check
+function nationFields(nation: FixtureNation): string {
+    return [
+        element('NAME', nation.name),
+        element('FULLNAME', nation.fullName),
+        element('FLAG', nation.flag),
+        element('REGION', nation.region),
+        element('CATEGORY', nation.category),
+        element('UNSTATUS', nation.waStatus),
+        element('ENDORSEMENTS', nation.endorsements.join(',')),
+        element('POPULATION', nation.population),
+        element('INFLUENCE', nation.influence),
+        element('FIRSTLOGIN', nation.firstLogin),
+        element('FOUNDEDTIME', nation.foundedTime),
+    ].join('');
+}
+
+export function nationsDumpXml(nations: FixtureNation[]): string {
+    const body = nations
+        .map((nation) => `<NATION>${nationFields(nation)}<GOVT><NAME>Nested name that must be ignored</NAME></GOVT></NATION>`)
+        .join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<NATIONS api_version="12">\n${body}\n</NATIONS>\n`;
+}
+
+export function nationShardXml(nation: FixtureNation): string {
+    const id = nation.name.toLowerCase().replace(/ /g, '_');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<NATION id="${id}">${nationFields(nation)}</NATION>\n`;
+}
+
+export function regionsDumpXml(regions: FixtureRegion[]): string {
+    const body = regions
+        .map((region) => `<REGION>${[
+            element('NAME', region.name),
+            element('NUMNATIONS', region.numNations),
+            element('DELEGATE', region.delegate),
+            element('DELEGATEVOTES', region.delegateVotes),
+            element('FOUNDER', region.founder),
+            element('FLAG', region.flag),
+            `<OFFICERS><OFFICER><NATION>someone_else</NATION></OFFICER></OFFICERS>`,
+        ].join('')}</REGION>`)
+        .join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<REGIONS>\n${body}\n</REGIONS>\n`;
+}
@@ -0,0 +1,202 @@
+// test/mockNs/server.ts
+// A stand-in for the parts of NationStates the app talks to: the verify and nation endpoints of the API,
+// and the gzipped nations and regions dumps. Used by the end-to-end tests, or run on its own for local development:
+//   npm run mock-ns
+// then point NS_API_BASE_URL, NS_DUMP_NATIONS_URL, NS_DUMP_REGIONS_URL and NS_VERIFY_PAGE_URL at it.
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import {
+    FIXTURE_NATIONS,
+    FIXTURE_REGIONS,
+    FixtureNation,
+    FixtureRegion,
+    nationShardXml,
+    nationsDumpXml,
+    regionsDumpXml,
+} from './fixtures';
+
+/** What the next `a=verify` call answers: NationStates' "1" or "0", or a 429 rate limit response. */
+export type ScriptedVerifyResponse = '1' | '0' | 429;
+
+export interface MockRateLimitHeaders {
+    remaining: number;
+    resetSeconds: number;
+}
+
+export interface RecordedRequest {
+    path: string;
+    query: Record<string, string>;
+    userAgent: string | undefined;
+    receivedAt: number;
+}
+
+export interface MockNsServer {
+    baseUrl: string;
+    apiUrl: string;
+    nationsDumpUrl: string;
+    regionsDumpUrl: string;
+    verifyPageUrl: string;
+    requests: RecordedRequest[];
+    nations: FixtureNation[];
+    regions: FixtureRegion[];
+    // Answered in order; once empty, verify answers `defaultVerifyResponse`
+    verifyResponses: ScriptedVerifyResponse[];
+    defaultVerifyResponse: ScriptedVerifyResponse;
+    // Awaited before each verify answer, so a test can change the world while the app waits on NationStates
+    beforeVerify: (() => Promise<void>) | null;
+    // Seconds sent in Retry-After with scripted 429s
+    retryAfterSeconds: number;
+    // Sent on the next API response only, then back to a healthy budget
+    nextRateLimitHeaders: MockRateLimitHeaders | null;
+    // Anything but 200 makes both dump downloads fail with that status
+    dumpStatus: number;
+    reset(): void;
+    close(): Promise<void>;
+}
+
+const HEALTHY_RATE_LIMIT: MockRateLimitHeaders = { remaining: 49, resetSeconds: 30 };
+
+/**
+ * Starts the mock server on `port` (0 picks a free one) with fresh copies of the fixtures.
+ */
+export async function startMockNsServer(port = 0): Promise<MockNsServer> {
+    const server = http.createServer();
+
+    const mock: MockNsServer = {
+        baseUrl: '',
+        apiUrl: '',
+        nationsDumpUrl: '',
+        regionsDumpUrl: '',
+        verifyPageUrl: '',
+        requests: [],
+        nations: [],
+        regions: [],
+        verifyResponses: [],
+        defaultVerifyResponse: '0',
+        beforeVerify: null,
+        retryAfterSeconds: 1,
+        nextRateLimitHeaders: null,
+        dumpStatus: 200,
+        reset() {
+            mock.requests = [];
+            mock.nations = FIXTURE_NATIONS.map((nation) => ({ ...nation }));
+            mock.regions = FIXTURE_REGIONS.map((region) => ({ ...region }));
+            mock.verifyResponses = [];
+            mock.defaultVerifyResponse = '0';
+            mock.beforeVerify = null;
+            mock.retryAfterSeconds = 1;
+            mock.nextRateLimitHeaders = null;
+            mock.dumpStatus = 200;
+        },
+        close() {
+            return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+        },
+    };
+    mock.reset();
+
+    const sendApi = (res: http.ServerResponse, status: number, body: string) => {
+        const rateLimit = mock.nextRateLimitHeaders || HEALTHY_RATE_LIMIT;
+        mock.nextRateLimitHeaders = null;
+        res.writeHead(status, {
+            'Content-Type': 'text/xml; charset=utf-8',
+            'RateLimit-Policy': '50;w=30',
+            'RateLimit-Limit': '50',
+            'RateLimit-Remaining': String(rateLimit.remaining),
+            'RateLimit-Reset': String(rateLimit.resetSeconds),
+            ...(status === 429 ? { 'Retry-After': String(mock.retryAfterSeconds) } : {}),
+        });
+        res.end(body);
+    };
+
+    const sendGzip = (res: http.ServerResponse, xml: string) => {
+        if (mock.dumpStatus !== 200) {
+            res.writeHead(mock.dumpStatus);
+            return res.end();
+        }
+        const body = zlib.gzipSync(Buffer.from(xml, 'utf8'));
+        res.writeHead(200, { 'Content-Type': 'application/x-gzip', 'Content-Length': String(body.length) });
+        res.end(body);
+    };
+
+    server.on('request', (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const query = Object.fromEntries(url.searchParams.entries());
+        mock.requests.push({ path: url.pathname, query, userAgent: req.headers['user-agent'], receivedAt: Date.now() });
+
+        if (url.pathname === '/pages/nations.xml.gz') {
+            return sendGzip(res, nationsDumpXml(mock.nations));
+        }
+        if (url.pathname === '/pages/regions.xml.gz') {
+            return sendGzip(res, regionsDumpXml(mock.regions));
+        }
+        if (url.pathname === '/page=verify_login') {
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            return res.end(`Mock verification page. Use any checksum for token ${query.token || '(none)'}.`);
+        }
+
+        // Lets a manually run server be scripted without code, e.g. /__mock/verify?responses=429,1
+        if (url.pathname === '/__mock/verify') {
+            mock.verifyResponses = (query.responses || '')
+                .split(',')
+                .filter(Boolean)
+                .map((value) => (value === '429' ? 429 : value === '1' ? '1' : '0'));
+            res.writeHead(204);
+            return res.end();
+        }
+
+        if (url.pathname !== '/cgi-bin/api.cgi') {
+            res.writeHead(404);
+            return res.end();
+        }
+
+        if (query.a === 'verify') {
+            const scripted = mock.verifyResponses.length > 0 ? mock.verifyResponses.shift()! : mock.defaultVerifyResponse;
+            const answer = () => {
+                if (scripted === 429) {
+                    return sendApi(res, 429, 'Too Many Requests');
+                }
+                return sendApi(res, 200, `${scripted}\n`);
+            };
+            if (mock.beforeVerify) {
+                mock.beforeVerify().then(answer, (error) => {
+                    res.writeHead(500);
+                    res.end(String(error));
+                });
+                return;
+            }
+            return answer();
+        }
+
+        if (query.nation) {
+            const nation = mock.nations.find((candidate) => candidate.name.toLowerCase().replace(/ /g, '_') === query.nation);
+            if (!nation) {
+                return sendApi(res, 404, 'Unknown nation');
+            }
+            return sendApi(res, 200, nationShardXml(nation));
+        }
+
+        return sendApi(res, 400, 'Bad request');
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    const { port: boundPort } = server.address() as AddressInfo;
+    mock.baseUrl = `http://127.0.0.1:${boundPort}`;
+    mock.apiUrl = `${mock.baseUrl}/cgi-bin/api.cgi`;
+    mock.nationsDumpUrl = `${mock.baseUrl}/pages/nations.xml.gz`;
+    mock.regionsDumpUrl = `${mock.baseUrl}/pages/regions.xml.gz`;
+    mock.verifyPageUrl = `${mock.baseUrl}/page=verify_login`;
+    return mock;
+}
+
+if (require.main === module) {
+    startMockNsServer(Number(process.env.MOCK_NS_PORT) || 4010).then((mock) => {
+        // Convenient default for clicking through the sign flow by hand
+        mock.defaultVerifyResponse = '1';
+        console.log(`Mock NationStates server listening on ${mock.baseUrl}`);
+        console.log(`  NS_API_BASE_URL=${mock.apiUrl}`);
+        console.log(`  NS_DUMP_NATIONS_URL=${mock.nationsDumpUrl}`);
+        console.log(`  NS_DUMP_REGIONS_URL=${mock.regionsDumpUrl}`);
+        console.log(`  NS_VERIFY_PAGE_URL=${mock.verifyPageUrl}`);
+    });
+}